@@ -0,0 +1,155 @@
+import { Interface } from 'ethers';
+import { PackedUserOperation, UserOperationV06 } from './types';
+
+/**
+ * ABI fragment of the v0.7 PackedUserOperation struct, in field order
+ */
+export const PACKED_USER_OP_TUPLE =
+    'tuple(address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, ' +
+    'uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)';
+
+/**
+ * ABI fragment of the legacy v0.6 UserOperation struct, in field order
+ */
+export const USER_OP_V06_TUPLE =
+    'tuple(address sender, uint256 nonce, bytes initCode, bytes callData, uint256 callGasLimit, ' +
+    'uint256 verificationGasLimit, uint256 preVerificationGas, uint256 maxFeePerGas, uint256 maxPriorityFeePerGas, ' +
+    'bytes paymasterAndData, bytes signature)';
+
+/**
+ * Entity interfaces called by EntryPoint v0.7 during validation
+ */
+export const ACCOUNT_INTERFACE = new Interface([
+    `function validateUserOp(${PACKED_USER_OP_TUPLE} userOp, bytes32 userOpHash, uint256 missingAccountFunds) returns (uint256 validationData)`,
+]);
+
+export const PAYMASTER_INTERFACE = new Interface([
+    `function validatePaymasterUserOp(${PACKED_USER_OP_TUPLE} userOp, bytes32 userOpHash, uint256 maxCost) returns (bytes context, uint256 validationData)`,
+]);
+
+/**
+ * Entity interfaces called by EntryPoint v0.6 during validation
+ */
+export const ACCOUNT_V06_INTERFACE = new Interface([
+    `function validateUserOp(${USER_OP_V06_TUPLE} userOp, bytes32 userOpHash, uint256 missingAccountFunds) returns (uint256 validationData)`,
+]);
+
+export const PAYMASTER_V06_INTERFACE = new Interface([
+    `function validatePaymasterUserOp(${USER_OP_V06_TUPLE} userOp, bytes32 userOpHash, uint256 maxCost) returns (bytes context, uint256 validationData)`,
+]);
+
+/**
+ * Converts a PackedUserOperation into the positional tuple expected by the ABI coder
+ */
+function toAbiTuple(userOp: PackedUserOperation): unknown[] {
+    return [
+        userOp.sender,
+        BigInt(userOp.nonce),
+        userOp.initCode,
+        userOp.callData,
+        userOp.accountGasLimits,
+        BigInt(userOp.preVerificationGas),
+        userOp.gasFees,
+        userOp.paymasterAndData,
+        userOp.signature,
+    ];
+}
+
+/**
+ * Converts a legacy v0.6 UserOperation into the positional tuple expected by the ABI coder
+ */
+function toAbiTupleV06(userOp: UserOperationV06): unknown[] {
+    return [
+        userOp.sender,
+        BigInt(userOp.nonce),
+        userOp.initCode,
+        userOp.callData,
+        BigInt(userOp.callGasLimit),
+        BigInt(userOp.verificationGasLimit),
+        BigInt(userOp.preVerificationGas),
+        BigInt(userOp.maxFeePerGas),
+        BigInt(userOp.maxPriorityFeePerGas),
+        userOp.paymasterAndData,
+        userOp.signature,
+    ];
+}
+
+/**
+ * Encodes `validateUserOp(userOp, userOpHash, missingAccountFunds)` (selector 0x19822f7c)
+ */
+export function encodeValidateUserOp(
+    userOp: PackedUserOperation,
+    userOpHash: string,
+    missingAccountFunds: bigint = 0n
+): string {
+    return ACCOUNT_INTERFACE.encodeFunctionData('validateUserOp', [
+        toAbiTuple(userOp),
+        userOpHash,
+        missingAccountFunds,
+    ]);
+}
+
+/**
+ * Encodes `validatePaymasterUserOp(userOp, userOpHash, maxCost)` (selector 0x52b7512c)
+ */
+export function encodeValidatePaymasterUserOp(
+    userOp: PackedUserOperation,
+    userOpHash: string,
+    maxCost: bigint = 0n
+): string {
+    return PAYMASTER_INTERFACE.encodeFunctionData('validatePaymasterUserOp', [
+        toAbiTuple(userOp),
+        userOpHash,
+        maxCost,
+    ]);
+}
+
+/**
+ * Encodes the v0.6 `validateUserOp(userOp, userOpHash, missingAccountFunds)` (selector 0x3a871cdd)
+ */
+export function encodeValidateUserOpV06(
+    userOp: UserOperationV06,
+    userOpHash: string,
+    missingAccountFunds: bigint = 0n
+): string {
+    return ACCOUNT_V06_INTERFACE.encodeFunctionData('validateUserOp', [
+        toAbiTupleV06(userOp),
+        userOpHash,
+        missingAccountFunds,
+    ]);
+}
+
+/**
+ * Encodes the v0.6 `validatePaymasterUserOp(userOp, userOpHash, maxCost)` (selector 0xf465c77e)
+ */
+export function encodeValidatePaymasterUserOpV06(
+    userOp: UserOperationV06,
+    userOpHash: string,
+    maxCost: bigint = 0n
+): string {
+    return PAYMASTER_V06_INTERFACE.encodeFunctionData('validatePaymasterUserOp', [
+        toAbiTupleV06(userOp),
+        userOpHash,
+        maxCost,
+    ]);
+}
+
+/**
+ * EntryPointSimulations v0.7: simulateValidation and the errors it reverts with
+ */
+export const ENTRYPOINT_SIMULATIONS_INTERFACE = new Interface([
+    `function simulateValidation(${PACKED_USER_OP_TUPLE} userOp) returns (` +
+    'tuple(tuple(uint256 preOpGas, uint256 prefund, uint256 accountValidationData, uint256 paymasterValidationData, bytes paymasterContext) returnInfo, ' +
+    'tuple(uint256 stake, uint256 unstakeDelaySec) senderInfo, tuple(uint256 stake, uint256 unstakeDelaySec) factoryInfo, ' +
+    'tuple(uint256 stake, uint256 unstakeDelaySec) paymasterInfo, ' +
+    'tuple(address aggregator, tuple(uint256 stake, uint256 unstakeDelaySec) stakeInfo) aggregatorInfo) validationResult)',
+    'error FailedOp(uint256 opIndex, string reason)',
+    'error FailedOpWithRevert(uint256 opIndex, string reason, bytes inner)',
+]);
+
+/**
+ * Encodes `EntryPointSimulations.simulateValidation(userOp)` (selector 0xc3bce009)
+ */
+export function encodeSimulateValidation(userOp: PackedUserOperation): string {
+    return ENTRYPOINT_SIMULATIONS_INTERFACE.encodeFunctionData('simulateValidation', [toAbiTuple(userOp)]);
+}
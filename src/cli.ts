@@ -4,11 +4,13 @@ import path from 'path';
 import pkg from '../package.json';
 import { validateUserOpStructure } from './static-checks';
 import { SimulationEnvironment } from './simulation';
-import { PackedUserOperation } from './types';
 import { JsonRpcServer } from './server';
+import { FileReputationStore } from './reputation';
+import { normalizeUserOp } from './userop-packing';
+import { EntryPointVersion, ENTRYPOINT_V07_ADDRESS, getEntryPointVersion } from './entrypoint';
 
 function printHelp(): void {
-    console.log(`UserOp Validator (v${(pkg as any).version})\n\nUsage:\n  userop-validator <path-to-userop.json> [--simulate] [--rpc <rpc-url>]\n  userop-validator serve --port <number> [--rpc <rpc-url>]\n\nOptions:\n  --simulate           Run full VM simulation (in addition to static checks)\n  --rpc <url>          Enable state forking via upstream RPC\n  --port <number>      Server port (serve mode only)\n  -h, --help           Show help\n  -v, --version        Print version\n`);
+    console.log(`UserOp Validator (v${(pkg as any).version})\n\nUsage:\n  userop-validator <path-to-userop.json> [--simulate] [--rpc <rpc-url>] [--entry-point <address>] [--max-verification-gas <gas>]\n  userop-validator serve --port <number> [--rpc <rpc-url>] [--entry-point <address>] [--reputation-file <path>] [--debug] [--admin-token <token>] [--max-verification-gas <gas>] [--max-trace-steps <number>]\n\nOptions:\n  --simulate           Run full VM simulation (in addition to static checks)\n  --rpc <url>          Enable state forking via upstream RPC\n  --entry-point <addr> Target EntryPoint (v0.6, v0.7 or v0.8, default v0.7)\n  --max-verification-gas <gas> Reject verification gas limits above this (no limit by default)\n  --port <number>      Server port (serve mode only)\n  --reputation-file <path> Persist reputation to a JSONL file (serve mode only)\n  --debug              Enable the debug_bundler_* reputation methods (serve mode only)\n  --admin-token <token> Require this bearer token for debug_bundler_* methods (implies --debug)\n  --max-trace-steps <number> Most steps debug_traceUserOperation records (serve mode only, default 10000)\n  -h, --help           Show help\n  -v, --version        Print version\n`);
 }
 
 async function main() {
@@ -30,6 +32,21 @@ async function main() {
         rpcUrl = args[rpcIndex + 1];
     }
 
+    // Parse Optional EntryPoint argument (selects the v0.6 or v0.7 rules)
+    let entryPoint = ENTRYPOINT_V07_ADDRESS;
+    const entryPointIndex = args.indexOf('--entry-point');
+    if (entryPointIndex !== -1 && entryPointIndex + 1 < args.length) {
+        entryPoint = args[entryPointIndex + 1];
+    }
+    const entryPointVersion = getEntryPointVersion(entryPoint);
+
+    // Parse Optional cap on the verification gas limits
+    let maxVerificationGas: bigint | undefined;
+    const maxGasIndex = args.indexOf('--max-verification-gas');
+    if (maxGasIndex !== -1 && maxGasIndex + 1 < args.length) {
+        maxVerificationGas = BigInt(args[maxGasIndex + 1]);
+    }
+
     // Check for "serve" command
     if (args[0] === 'serve') {
         let port = 3000;
@@ -38,10 +55,36 @@ async function main() {
             port = parseInt(args[portIndex + 1], 10);
         }
 
+        // Keep reputation across restarts
+        let reputationStore: FileReputationStore | undefined;
+        const reputationIndex = args.indexOf('--reputation-file');
+        if (reputationIndex !== -1 && reputationIndex + 1 < args.length) {
+            reputationStore = new FileReputationStore({ path: path.resolve(process.cwd(), args[reputationIndex + 1]) });
+        }
+
+        // Reputation admin methods
+        let adminToken: string | undefined;
+        const adminTokenIndex = args.indexOf('--admin-token');
+        if (adminTokenIndex !== -1 && adminTokenIndex + 1 < args.length) {
+            adminToken = args[adminTokenIndex + 1];
+        }
+
+        let maxTraceSteps: number | undefined;
+        const maxTraceStepsIndex = args.indexOf('--max-trace-steps');
+        if (maxTraceStepsIndex !== -1 && maxTraceStepsIndex + 1 < args.length) {
+            maxTraceSteps = parseInt(args[maxTraceStepsIndex + 1], 10);
+        }
+
         console.log(`Starting JSON-RPC Server on port ${port}...`);
         const server = new JsonRpcServer({
             port,
-            rpcUrl
+            rpcUrl,
+            entryPointAddress: entryPoint,
+            reputationStore,
+            debugMethods: args.includes('--debug') || adminToken !== undefined,
+            adminToken,
+            maxVerificationGas,
+            maxTraceSteps
         });
         await server.start();
         // Keep process alive
@@ -62,7 +105,7 @@ async function main() {
         console.log(`Validating UserOp from: ${filePath}`);
 
         // 1. Static Checks
-        const staticResult = validateUserOpStructure(userOp);
+        const staticResult = validateUserOpStructure(userOp, entryPointVersion, maxVerificationGas);
         if (!staticResult.isValid) {
             console.error('Static Validation Failed:');
             staticResult.errors.forEach(err => console.error(`- ${err}`));
@@ -78,11 +121,13 @@ async function main() {
             if (rpcUrl) {
                 console.log(`Using RPC connection: ${rpcUrl}`);
             }
-            const env = new SimulationEnvironment({ rpcUrl });
+            const env = new SimulationEnvironment({ rpcUrl, entryPointAddress: entryPoint, maxVerificationGas });
             await env.init();
 
-            // We assume userOp is valid PackedUserOperation since static checks passed
-            const result = await env.simulateValidation(userOp as PackedUserOperation);
+            // Static checks passed, so userOp is a v0.6 UserOperation or a packed/unpacked v0.7 one
+            const result = await env.simulateValidation(
+                entryPointVersion === EntryPointVersion.V06 ? userOp : normalizeUserOp(userOp)
+            );
 
             if (result.isValid) {
                 console.log('Simulation Passed ✅');
@@ -0,0 +1,72 @@
+import { concat, encodeRlp, getAddress, keccak256, recoverAddress, toBeArray, toBeHex } from 'ethers';
+import { Eip7702Authorization, HexString } from './types';
+
+/**
+ * initCode prefix marking an EIP-7702 account in EntryPoint v0.8:
+ * the first 20 bytes are 0x7702 padded with zeros, followed by optional initialization calldata.
+ */
+export const INITCODE_EIP7702_MARKER = '0x7702';
+
+/**
+ * Prefix of the delegation designator code installed by an EIP-7702 authorization
+ */
+export const DELEGATION_DESIGNATOR_PREFIX = '0xef0100';
+
+/**
+ * Magic byte prepended to the RLP payload when signing an authorization
+ */
+const AUTHORIZATION_MAGIC = '0x05';
+
+/**
+ * Whether the initCode is the EIP-7702 marker (optionally followed by initialization calldata)
+ */
+export function isEip7702InitCode(initCode: HexString): boolean {
+    if (!initCode || initCode.length < 6) {
+        return false;
+    }
+    const initCodeStart = initCode.slice(2, 42).padEnd(40, '0');
+    return initCodeStart === INITCODE_EIP7702_MARKER.slice(2) + '0'.repeat(36);
+}
+
+/**
+ * Returns the initialization calldata following the EIP-7702 marker ('0x' if none)
+ */
+export function getEip7702InitData(initCode: HexString): HexString {
+    return '0x' + initCode.slice(42);
+}
+
+/**
+ * Builds the delegation designator code (0xef0100 || delegate)
+ */
+export function getDelegationDesignator(delegate: HexString): HexString {
+    return DELEGATION_DESIGNATOR_PREFIX + delegate.slice(2).toLowerCase();
+}
+
+/**
+ * Extracts the delegate from account code, or undefined if the code is not a delegation designator
+ */
+export function parseDelegationDesignator(code: HexString): HexString | undefined {
+    if (code.length !== 48 || !code.toLowerCase().startsWith(DELEGATION_DESIGNATOR_PREFIX)) {
+        return undefined;
+    }
+    return getAddress('0x' + code.slice(8));
+}
+
+/**
+ * Computes the digest signed by the authority: keccak256(0x05 || rlp([chainId, address, nonce]))
+ */
+export function getAuthorizationHash(auth: Eip7702Authorization): HexString {
+    const payload = encodeRlp([toBeArray(BigInt(auth.chainId)), auth.address, toBeArray(BigInt(auth.nonce))]);
+    return keccak256(concat([AUTHORIZATION_MAGIC, payload]));
+}
+
+/**
+ * Recovers the account that signed the authorization
+ */
+export function recoverAuthority(auth: Eip7702Authorization): HexString {
+    return recoverAddress(getAuthorizationHash(auth), {
+        r: toBeHex(BigInt(auth.r), 32),
+        s: toBeHex(BigInt(auth.s), 32),
+        yParity: Number(BigInt(auth.yParity)) as 0 | 1,
+    });
+}
@@ -0,0 +1,32 @@
+import { Address, createAddressFromString } from '@ethereumjs/util';
+
+/**
+ * Supported EntryPoint versions
+ */
+export enum EntryPointVersion {
+    V06 = '0.6',
+    V07 = '0.7',
+    V08 = '0.8',
+}
+
+/**
+ * Canonical EntryPoint deployments
+ */
+export const ENTRYPOINT_V06_ADDRESS = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789';
+export const ENTRYPOINT_V07_ADDRESS = '0x0000000071727De22E5E9d8BAf0edAc6f37da032';
+export const ENTRYPOINT_V08_ADDRESS = '0x4337084D9E255Ff0702461CF8895CE9E3b5Ff108';
+
+const KNOWN_ENTRYPOINTS: Record<string, EntryPointVersion> = {
+    [ENTRYPOINT_V06_ADDRESS.toLowerCase()]: EntryPointVersion.V06,
+    [ENTRYPOINT_V07_ADDRESS.toLowerCase()]: EntryPointVersion.V07,
+    [ENTRYPOINT_V08_ADDRESS.toLowerCase()]: EntryPointVersion.V08,
+};
+
+/**
+ * Resolves the EntryPoint version from its address.
+ * Unknown addresses (e.g. local deployments) are treated as v0.7.
+ */
+export function getEntryPointVersion(entryPoint: string | Address): EntryPointVersion {
+    const address = typeof entryPoint === 'string' ? createAddressFromString(entryPoint) : entryPoint;
+    return KNOWN_ENTRYPOINTS[address.toString()] ?? EntryPointVersion.V07;
+}
@@ -1,4 +1,5 @@
-import { PackedUserOperation } from './types';
+import { PackedUserOperation, PhaseGasUsed, UserOperationV06 } from './types';
+import { unpackUint128s } from './userop-packing';
 // import { toBuffer } from '@ethereumjs/util';
 
 /**
@@ -8,12 +9,17 @@ export const CallsBaseGas = 21000;
 export const CallsNonZeroByteGas = 16;
 export const CallsZeroByteGas = 4;
 
+/**
+ * Default share (percent) of a validation gas limit that should actually be used before warning
+ */
+export const DEFAULT_MIN_GAS_EFFICIENCY = 10;
+
 /**
  * Calculates the pre-verification gas for a UserOperation.
  * Formula: 21000 + calldata cost + overhead
  * Note: This is a simplified calculation.
  */
-export function calcPreVerificationGas(userOp: PackedUserOperation): bigint {
+export function calcPreVerificationGas(userOp: PackedUserOperation | UserOperationV06): bigint {
     const p = userOp;
     // TODO: Handle unpacking if needed, but for PackedUserOp, the fields are packed.
     // We need to estimate the cost of the UserOp struct when put into calldata of handleOps.
@@ -33,17 +39,31 @@ export function calcPreVerificationGas(userOp: PackedUserOperation): bigint {
 
     let cost = BigInt(CallsBaseGas + overhead);
 
-    const fields = [
-        p.sender,
-        p.nonce,
-        p.initCode,
-        p.callData,
-        p.accountGasLimits,
-        p.preVerificationGas,
-        p.gasFees,
-        p.paymasterAndData,
-        p.signature
-    ];
+    const fields = 'accountGasLimits' in p
+        ? [
+            p.sender,
+            p.nonce,
+            p.initCode,
+            p.callData,
+            p.accountGasLimits,
+            p.preVerificationGas,
+            p.gasFees,
+            p.paymasterAndData,
+            p.signature
+        ]
+        : [
+            p.sender,
+            p.nonce,
+            p.initCode,
+            p.callData,
+            p.callGasLimit,
+            p.verificationGasLimit,
+            p.preVerificationGas,
+            p.maxFeePerGas,
+            p.maxPriorityFeePerGas,
+            p.paymasterAndData,
+            p.signature
+        ];
 
     for (const field of fields) {
         const hex = field.toString().startsWith('0x') ? field.toString().slice(2) : BigInt(field).toString(16);
@@ -62,3 +82,105 @@ export function calcPreVerificationGas(userOp: PackedUserOperation): bigint {
 
     return cost;
 }
+
+/**
+ * Gas budgets the EntryPoint gives the validation phases
+ */
+export interface VerificationGasLimits {
+    /** Budget for account creation and validateUserOp */
+    verificationGasLimit: bigint;
+    /** Budget for validatePaymasterUserOp */
+    paymasterVerificationGasLimit: bigint;
+}
+
+/**
+ * Extracts the validation gas budgets from a UserOperation.
+ * v0.7/v0.8 take them from `accountGasLimits` and `paymasterAndData[20:36]`;
+ * v0.6 uses `verificationGasLimit` for the paymaster as well.
+ */
+export function getVerificationGasLimits(userOp: PackedUserOperation | UserOperationV06): VerificationGasLimits {
+    if (!('accountGasLimits' in userOp)) {
+        const verificationGasLimit = BigInt(userOp.verificationGasLimit);
+        return { verificationGasLimit, paymasterVerificationGasLimit: verificationGasLimit };
+    }
+
+    const [verificationGasLimit] = unpackUint128s(userOp.accountGasLimits);
+    const paymasterGas = userOp.paymasterAndData.slice(42, 74);
+    return {
+        verificationGasLimit,
+        paymasterVerificationGasLimit: paymasterGas ? BigInt('0x' + paymasterGas) : BigInt(0),
+    };
+}
+
+/**
+ * Checks the validation gas limits of a UserOperation against a maximum
+ * @returns An error for each limit above `maxVerificationGas`
+ */
+export function checkMaxVerificationGas(
+    userOp: PackedUserOperation | UserOperationV06,
+    maxVerificationGas: bigint
+): string[] {
+    const errors: string[] = [];
+    const { verificationGasLimit, paymasterVerificationGasLimit } = getVerificationGasLimits(userOp);
+
+    if (verificationGasLimit > maxVerificationGas) {
+        errors.push(`verificationGasLimit ${verificationGasLimit} exceeds the maximum of ${maxVerificationGas}`);
+    }
+    // v0.6 has a single limit, already checked
+    if ('accountGasLimits' in userOp && paymasterVerificationGasLimit > maxVerificationGas) {
+        errors.push(
+            `paymasterVerificationGasLimit ${paymasterVerificationGasLimit} exceeds the maximum of ${maxVerificationGas}`
+        );
+    }
+    return errors;
+}
+
+/**
+ * Compares the gas used by the validation phases with the UserOperation's limits.
+ * Exceeding a limit is an error (AA26/AA36, AA40 for v0.6, where one limit covers all phases);
+ * using less than `minEfficiency` percent of a limit only produces a warning.
+ */
+export function checkVerificationGasUsage(
+    userOp: PackedUserOperation | UserOperationV06,
+    gasUsed: PhaseGasUsed,
+    minEfficiency: number = DEFAULT_MIN_GAS_EFFICIENCY
+): { errors: string[]; warnings: string[] } {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const { verificationGasLimit, paymasterVerificationGasLimit } = getVerificationGasLimits(userOp);
+    const creationAndAccount = (gasUsed.factory ?? BigInt(0)) + (gasUsed.account ?? BigInt(0));
+
+    const checkEfficiency = (name: string, used: bigint, limit: bigint) => {
+        if (limit > BigInt(0) && used * BigInt(100) < limit * BigInt(minEfficiency)) {
+            warnings.push(`${name} ${limit} is inefficient: validation used ${used} (less than ${minEfficiency}%)`);
+        }
+    };
+
+    if (!('accountGasLimits' in userOp)) {
+        const total = creationAndAccount + (gasUsed.paymaster ?? BigInt(0));
+        if (total > verificationGasLimit) {
+            errors.push(`AA40 over verificationGasLimit: used ${total}, limit ${verificationGasLimit}`);
+        } else {
+            checkEfficiency('verificationGasLimit', total, verificationGasLimit);
+        }
+        return { errors, warnings };
+    }
+
+    if (creationAndAccount > verificationGasLimit) {
+        errors.push(`AA26 over verificationGasLimit: used ${creationAndAccount}, limit ${verificationGasLimit}`);
+    } else {
+        checkEfficiency('verificationGasLimit', creationAndAccount, verificationGasLimit);
+    }
+
+    if (gasUsed.paymaster !== undefined) {
+        if (gasUsed.paymaster > paymasterVerificationGasLimit) {
+            errors.push(
+                `AA36 over paymasterVerificationGasLimit: used ${gasUsed.paymaster}, limit ${paymasterVerificationGasLimit}`
+            );
+        } else {
+            checkEfficiency('paymasterVerificationGasLimit', gasUsed.paymaster, paymasterVerificationGasLimit);
+        }
+    }
+
+    return { errors, warnings };
+}
@@ -1,4 +1,17 @@
 export * from './types';
 export * from './validator';
+export * from './storage-rules';
+export * from './rules';
+export * from './precompiles';
 export * from './static-checks';
 export * from './simulation';
+export * from './userop-hash';
+export * from './calldata';
+export * from './validation-data';
+export * from './userop-packing';
+export * from './entrypoint';
+export * from './eip7702';
+export * from './entrypoint-bytecode';
+export * from './stake';
+export * from './reputation';
+export * from './tracer';
@@ -0,0 +1,63 @@
+import { Common } from '@ethereumjs/common';
+import { Address, bytesToBigInt } from '@ethereumjs/util';
+
+/**
+ * Addresses up to this value are reserved for precompiles
+ */
+export const MAX_PRECOMPILE_ADDRESS = BigInt(0xffff);
+
+const precompile = (n: number) => '0x' + n.toString(16).padStart(40, '0');
+
+/**
+ * Precompiles available on every EVM chain: ecrecover, sha256, ripemd160, identity, modexp,
+ * bn254 add/mul/pairing and blake2f (0x01 - 0x09)
+ */
+export const DEFAULT_PRECOMPILES: string[] = Array.from({ length: 9 }, (_, i) => precompile(i + 1));
+
+/**
+ * KZG point evaluation introduced with Cancun (EIP-4844)
+ */
+export const POINT_EVALUATION_PRECOMPILE = precompile(0x0a);
+
+/**
+ * BLS12-381 precompiles introduced with Prague (EIP-2537, 0x0b - 0x11)
+ */
+export const BLS12_381_PRECOMPILES: string[] = Array.from({ length: 7 }, (_, i) => precompile(i + 0x0b));
+
+/**
+ * secp256r1 signature verification (RIP-7212)
+ */
+export const P256VERIFY_PRECOMPILE = precompile(0x100);
+
+/**
+ * Precompiles accepted during validation per chain id, beyond those of the hardfork [OP-062].
+ * Only precompiles that don't access blockchain state or environment are listed.
+ */
+export const CHAIN_PRECOMPILES: Record<string, string[]> = {
+    // Optimism, Polygon, Base, Arbitrum One
+    '10': [P256VERIFY_PRECOMPILE],
+    '137': [P256VERIFY_PRECOMPILE],
+    '8453': [P256VERIFY_PRECOMPILE],
+    '42161': [P256VERIFY_PRECOMPILE],
+};
+
+/**
+ * Returns the precompiles accepted during validation: those of the simulated hardfork,
+ * plus the ones listed for its chain
+ * @param common The chain and hardfork being simulated
+ */
+export function getPrecompileAllowlist(common: Common): string[] {
+    return [
+        ...DEFAULT_PRECOMPILES,
+        ...(common.isActivatedEIP(4844) ? [POINT_EVALUATION_PRECOMPILE] : []),
+        ...(common.isActivatedEIP(2537) ? BLS12_381_PRECOMPILES : []),
+        ...(CHAIN_PRECOMPILES[common.chainId().toString()] ?? []),
+    ];
+}
+
+/**
+ * Whether an address is in the range reserved for precompiles
+ */
+export function isPrecompileRange(address: Address): boolean {
+    return bytesToBigInt(address.toBytes()) <= MAX_PRECOMPILE_ADDRESS;
+}
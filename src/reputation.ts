@@ -1,3 +1,4 @@
+import fs from 'fs';
 import { Address } from '@ethereumjs/util';
 
 export enum ReputationStatus {
@@ -8,12 +9,29 @@ export enum ReputationStatus {
 
 export interface ReputationEntry {
     address: string;
+    /** UserOperations that referenced the entity (decayed hourly) */
     opsSeen: number;
-    opsFailed: number;
-    lastSeenBlock: number; // For future usage with block numbers
+    /** UserOperations of the entity that were included on-chain (decayed hourly) */
+    opsIncluded: number;
     status: ReputationStatus;
 }
 
+/**
+ * Reputation parameters of ERC-7562, and the clock used for the hourly decay
+ */
+export interface ReputationOptions {
+    /** An entity is expected to get one in this many of its seen ops included (default 10) */
+    minInclusionRateDenominator?: number;
+    /** Ops above the expected inclusions before the entity is throttled (default 10) */
+    throttlingSlack?: number;
+    /** Ops above the expected inclusions before the entity is banned (default 50) */
+    banSlack?: number;
+    /** opsSeen added on top of the seen op when the entity breaks a validation rule (default 0) */
+    failurePenalty?: number;
+    /** Current time in milliseconds (defaults to Date.now) */
+    now?: () => number;
+}
+
 export interface ReputationStore {
     /**
      * Check the status of an entity.
@@ -28,33 +46,131 @@ export interface ReputationStore {
      */
     updateStatus(address: Address, success: boolean): void;
 
+    /**
+     * Record that a UserOperation of the entity was included on-chain
+     */
+    markIncluded?(address: Address): void;
+
     /**
      * Clear reputation for an address (useful for testing or manual unban)
      */
     clear(address: Address): void;
 
+    /**
+     * Clear the reputation of every entity (debug_bundler_clearState)
+     */
+    clearAll?(): void;
+
     /**
      * Get the full entry for debugging
      */
     getEntry(address: Address): ReputationEntry | undefined;
+
+    /**
+     * Get every tracked entry (debug_bundler_dumpReputation)
+     */
+    getEntries?(): ReputationEntry[];
+
+    /**
+     * Overwrite the counters of an entity (debug_bundler_setReputation); the status follows from them
+     */
+    setEntry?(address: Address, opsSeen: number, opsIncluded: number): void;
 }
 
-// Simple constants for this MVP
-// If failed > seen * 0.1 (10% failure rate) and seen > 10, BAN?
-// Or just simplified: MAX_FAILURES before BAN.
-const MAX_FAILURES_ALLOWED = 5;
-const THROTTLE_THRESHOLD = 2; // For testing purposes, low thresholds
+// ERC-7562 defaults for a bundler
+export const MIN_INCLUSION_RATE_DENOMINATOR = 10;
+export const THROTTLING_SLACK = 10;
+export const BAN_SLACK = 50;
+
+const HOUR = 60 * 60 * 1000;
+
+// Appended records of the file store between compactions, unless configured otherwise
+const DEFAULT_COMPACT_EVERY = 1000;
+
+function decayEntry(entry: ReputationEntry, hours: number): void {
+    for (let i = 0; i < hours && (entry.opsSeen > 0 || entry.opsIncluded > 0); i++) {
+        entry.opsSeen = Math.floor(entry.opsSeen * 23 / 24);
+        entry.opsIncluded = Math.floor(entry.opsIncluded * 23 / 24);
+    }
+}
+
+/**
+ * Status from the ERC-7562 formula: `maxSeen = floor(opsSeen / MIN_INCLUSION_RATE_DENOMINATOR)` is
+ * OK up to `opsIncluded + THROTTLING_SLACK`, THROTTLED up to `opsIncluded + BAN_SLACK`, BANNED above
+ */
+export function getReputationStatus(
+    opsSeen: number,
+    opsIncluded: number,
+    options: ReputationOptions = {}
+): ReputationStatus {
+    const maxSeen = Math.floor(opsSeen / (options.minInclusionRateDenominator ?? MIN_INCLUSION_RATE_DENOMINATOR));
+    if (maxSeen <= opsIncluded + (options.throttlingSlack ?? THROTTLING_SLACK)) {
+        return ReputationStatus.OK;
+    }
+    if (maxSeen <= opsIncluded + (options.banSlack ?? BAN_SLACK)) {
+        return ReputationStatus.THROTTLED;
+    }
+    return ReputationStatus.BANNED;
+}
 
 export class InMemoryReputationStore implements ReputationStore {
-    private store: Map<string, ReputationEntry> = new Map();
+    protected store: Map<string, ReputationEntry> = new Map();
+    protected now: () => number;
+    /** Time of the latest hourly decay; counters are current as of then */
+    protected lastDecay: number;
+
+    constructor(protected options: ReputationOptions = {}) {
+        this.now = options.now ?? Date.now;
+        this.lastDecay = this.now();
+    }
 
     getStatus(address: Address): ReputationStatus {
-        const entry = this.store.get(address.toString());
+        const entry = this.getEntry(address);
         if (!entry) return ReputationStatus.OK;
         return entry.status;
     }
 
     updateStatus(address: Address, success: boolean): void {
+        const entry = this.getOrCreateEntry(address);
+
+        entry.opsSeen += 1 + (success ? 0 : this.options.failurePenalty ?? 0);
+
+        this.updateEntryStatus(entry);
+    }
+
+    markIncluded(address: Address): void {
+        const entry = this.getOrCreateEntry(address);
+        entry.opsIncluded++;
+        this.updateEntryStatus(entry);
+    }
+
+    clear(address: Address): void {
+        this.store.delete(address.toString());
+    }
+
+    clearAll(): void {
+        this.store.clear();
+    }
+
+    getEntry(address: Address): ReputationEntry | undefined {
+        this.decay();
+        return this.store.get(address.toString());
+    }
+
+    getEntries(): ReputationEntry[] {
+        this.decay();
+        return [...this.store.values()];
+    }
+
+    setEntry(address: Address, opsSeen: number, opsIncluded: number): void {
+        const entry = this.getOrCreateEntry(address);
+        entry.opsSeen = opsSeen;
+        entry.opsIncluded = opsIncluded;
+        this.updateEntryStatus(entry);
+    }
+
+    private getOrCreateEntry(address: Address): ReputationEntry {
+        this.decay();
         const key = address.toString();
         let entry = this.store.get(key);
 
@@ -62,36 +178,170 @@ export class InMemoryReputationStore implements ReputationStore {
             entry = {
                 address: key,
                 opsSeen: 0,
-                opsFailed: 0,
-                lastSeenBlock: 0,
+                opsIncluded: 0,
                 status: ReputationStatus.OK,
             };
             this.store.set(key, entry);
         }
+        return entry;
+    }
+
+    protected updateEntryStatus(entry: ReputationEntry): void {
+        entry.status = getReputationStatus(entry.opsSeen, entry.opsIncluded, this.options);
+    }
+
+    /**
+     * Applies the hourly decay for every hour elapsed since the last one:
+     * both counters are multiplied by 23/24 (rounded down), and entries back at zero are dropped
+     */
+    private decay(): void {
+        const hours = Math.floor((this.now() - this.lastDecay) / HOUR);
+        if (hours <= 0) return;
+        this.lastDecay += hours * HOUR;
 
-        entry.opsSeen++;
-        if (!success) {
-            entry.opsFailed++;
+        for (const [key, entry] of this.store) {
+            decayEntry(entry, hours);
+            if (entry.opsSeen === 0 && entry.opsIncluded === 0) {
+                this.store.delete(key);
+            } else {
+                this.updateEntryStatus(entry);
+            }
         }
+    }
+}
 
-        this.updateEntryStatus(entry);
+export interface FileReputationStoreOptions extends ReputationOptions {
+    /** JSONL file holding the reputation; created if missing */
+    path: string;
+    /** Records appended before the file is compacted (default 1000) */
+    compactEvery?: number;
+}
+
+/**
+ * One line of the reputation file: the counters of an entity as of the decay at `lastDecay`, or its removal
+ */
+interface ReputationRecord {
+    address: string;
+    opsSeen: number;
+    opsIncluded: number;
+    lastDecay: number;
+    cleared?: boolean;
+}
+
+/**
+ * Reputation store persisted to an append-only JSONL file, so it survives restarts.
+ * Every change appends the entity's counters; the file is loaded on construction and compacted
+ * (rewritten with one line per entity, through a temporary file and a rename) on load and
+ * every `compactEvery` records.
+ */
+export class FileReputationStore extends InMemoryReputationStore {
+    private path: string;
+    private compactEvery: number;
+    private appended = 0;
+
+    constructor(options: FileReputationStoreOptions) {
+        super(options);
+        this.path = options.path;
+        this.compactEvery = options.compactEvery ?? DEFAULT_COMPACT_EVERY;
+        this.load();
+        this.compact();
     }
 
-    private updateEntryStatus(entry: ReputationEntry): void {
-        if (entry.opsFailed >= MAX_FAILURES_ALLOWED) {
-            entry.status = ReputationStatus.BANNED;
-        } else if (entry.opsFailed >= THROTTLE_THRESHOLD) {
-            entry.status = ReputationStatus.THROTTLED;
-        } else {
-            entry.status = ReputationStatus.OK;
-        }
+    updateStatus(address: Address, success: boolean): void {
+        super.updateStatus(address, success);
+        this.append(address);
+    }
+
+    markIncluded(address: Address): void {
+        super.markIncluded(address);
+        this.append(address);
     }
 
     clear(address: Address): void {
-        this.store.delete(address.toString());
+        super.clear(address);
+        this.append(address);
     }
 
-    getEntry(address: Address): ReputationEntry | undefined {
-        return this.store.get(address.toString());
+    clearAll(): void {
+        super.clearAll();
+        this.compact();
+    }
+
+    setEntry(address: Address, opsSeen: number, opsIncluded: number): void {
+        super.setEntry(address, opsSeen, opsIncluded);
+        this.append(address);
+    }
+
+    /**
+     * Rewrites the file with the current entries
+     */
+    compact(): void {
+        const lines = [...this.store.values()].map(entry => JSON.stringify(this.toRecord(entry)) + '\n');
+        const tmpPath = `${this.path}.tmp`;
+        fs.writeFileSync(tmpPath, lines.join(''));
+        fs.renameSync(tmpPath, this.path);
+        this.appended = 0;
+    }
+
+    private load(): void {
+        if (!fs.existsSync(this.path)) return;
+
+        const now = this.now();
+        let lastDecay: number | undefined;
+        for (const line of fs.readFileSync(this.path, 'utf-8').split('\n')) {
+            let record: ReputationRecord;
+            try {
+                record = JSON.parse(line);
+            } catch {
+                continue; // empty or torn line
+            }
+            // Records are written in whole hours since one another, so any of them gives the decay schedule
+            lastDecay = record.lastDecay;
+            if (record.cleared) {
+                this.store.delete(record.address);
+                continue;
+            }
+            const entry: ReputationEntry = {
+                address: record.address,
+                opsSeen: record.opsSeen,
+                opsIncluded: record.opsIncluded,
+                status: ReputationStatus.OK,
+            };
+            // Catch up with the decay the entry missed since it was written
+            decayEntry(entry, Math.floor((now - record.lastDecay) / HOUR));
+            if (entry.opsSeen === 0 && entry.opsIncluded === 0) {
+                this.store.delete(entry.address);
+                continue;
+            }
+            this.updateEntryStatus(entry);
+            this.store.set(entry.address, entry);
+        }
+
+        // Keep the decay schedule, so the part of an hour that passed before the restart still counts
+        if (lastDecay !== undefined) {
+            this.lastDecay = now - (now - lastDecay) % HOUR;
+        }
+    }
+
+    private append(address: Address): void {
+        const key = address.toString();
+        const entry = this.store.get(key);
+        const record = entry
+            ? this.toRecord(entry)
+            : { address: key, opsSeen: 0, opsIncluded: 0, lastDecay: this.lastDecay, cleared: true };
+        fs.appendFileSync(this.path, JSON.stringify(record) + '\n');
+
+        if (++this.appended >= this.compactEvery) {
+            this.compact();
+        }
+    }
+
+    private toRecord(entry: ReputationEntry): ReputationRecord {
+        return {
+            address: entry.address,
+            opsSeen: entry.opsSeen,
+            opsIncluded: entry.opsIncluded,
+            lastDecay: this.lastDecay,
+        };
     }
 }
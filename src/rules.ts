@@ -0,0 +1,30 @@
+import { ValidationErrorCode, ValidationRuleId, ValidationViolation } from './types';
+
+/**
+ * Error code reported for a violation of each ERC-7562 rule
+ */
+export const RULE_ERROR_CODES: Record<ValidationRuleId, ValidationErrorCode> = {
+    'OP-011': ValidationErrorCode.BANNED_OPCODE,
+    'OP-012': ValidationErrorCode.BANNED_OPCODE,
+    'OP-020': ValidationErrorCode.BANNED_OPCODE,
+    'OP-031': ValidationErrorCode.BANNED_OPCODE,
+    'OP-041': ValidationErrorCode.BANNED_OPCODE,
+    'OP-054': ValidationErrorCode.BANNED_OPCODE,
+    'OP-061': ValidationErrorCode.BANNED_OPCODE,
+    'OP-062': ValidationErrorCode.BANNED_OPCODE,
+    'OP-080': ValidationErrorCode.BANNED_OPCODE,
+    'STO-022': ValidationErrorCode.INVALID_STORAGE,
+    'STO-031': ValidationErrorCode.INVALID_STORAGE,
+    'STO-032': ValidationErrorCode.INVALID_STORAGE,
+    'STO-033': ValidationErrorCode.INVALID_STORAGE,
+    'COD-010': ValidationErrorCode.REJECTED_BY_EP,
+    'EREP-050': ValidationErrorCode.REJECTED_BY_PAYMASTER,
+};
+
+/**
+ * Error code for a list of violations: that of the first violation's rule, in execution order
+ * @returns undefined if there are no violations
+ */
+export function getViolationsErrorCode(violations: ValidationViolation[]): ValidationErrorCode | undefined {
+    return violations.length > 0 ? RULE_ERROR_CODES[violations[0].rule] : undefined;
+}
@@ -1,23 +1,69 @@
 import express from 'express';
 import cors from 'cors';
 import bodyParser from 'body-parser';
+import { timingSafeEqual } from 'crypto';
+import { createAddressFromString } from '@ethereumjs/util';
+import { isAddress, toQuantity } from 'ethers';
 import { SimulationEnvironment } from './simulation';
-import { PackedUserOperation, ValidationErrorCode, BatchValidationResult } from './types';
+import { ReputationStatus, ReputationStore } from './reputation';
+import {
+    PackedUserOperation,
+    UnpackedUserOperation,
+    UserOperationV06,
+    ValidationErrorCode,
+    BatchValidationResult,
+    SimulationResult,
+    EntityType,
+    TraceUserOperationOptions,
+    UserOperationTrace,
+    ReputationDumpEntry,
+    ReputationErrorData
+} from './types';
+import { normalizeUserOp } from './userop-packing';
+import { DEFAULT_TRACE_STEP_LIMIT, formatUserOperationTrace } from './tracer';
+import { getViolationsErrorCode } from './rules';
+import { EntryPointVersion, ENTRYPOINT_V07_ADDRESS, getEntryPointVersion } from './entrypoint';
 
 export interface ServerOptions {
     port: number;
     rpcUrl?: string; // Upstream RPC for state forking
     entryPointAddress?: string;
+    reputationStore?: ReputationStore; // Defaults to an in-memory store
+    maxVerificationGas?: bigint; // Largest validation gas limit simulated (no limit by default)
+    debugMethods?: boolean; // Enables the debug_bundler_* admin methods
+    adminToken?: string; // If set, debug_bundler_* requests need `Authorization: Bearer <token>`
+    maxTraceSteps?: number; // Most steps debug_traceUserOperation records, whatever the request asks (default 10000)
 }
 
+// Admin methods of the bundler spec; they change or expose reputation
+const ADMIN_METHODS = new Set([
+    'debug_bundler_dumpReputation',
+    'debug_bundler_setReputation',
+    'debug_bundler_clearState',
+]);
+
+const REPUTATION_STATUS_NAMES: Record<ReputationStatus, NonNullable<ReputationDumpEntry['status']>> = {
+    [ReputationStatus.OK]: 'ok',
+    [ReputationStatus.THROTTLED]: 'throttled',
+    [ReputationStatus.BANNED]: 'banned',
+};
+
 export class JsonRpcServer {
     private app: express.Express;
     private port: number;
     private simulationEnv: SimulationEnvironment;
+    private entryPointAddress: string;
+    private debugMethods: boolean;
+    private adminToken?: string;
+    private maxTraceSteps: number;
 
     constructor(options: ServerOptions) {
         this.app = express();
         this.port = options.port;
+        this.entryPointAddress = options.entryPointAddress || ENTRYPOINT_V07_ADDRESS;
+        this.debugMethods = options.debugMethods ?? false;
+        this.adminToken = options.adminToken;
+        this.maxTraceSteps = options.maxTraceSteps ?? DEFAULT_TRACE_STEP_LIMIT;
 
         // Middleware
         this.app.use(cors());
@@ -26,7 +72,9 @@ export class JsonRpcServer {
         // Initialize Simulation Environment
         this.simulationEnv = new SimulationEnvironment({
             rpcUrl: options.rpcUrl,
-            entryPointAddress: options.entryPointAddress
+            entryPointAddress: options.entryPointAddress,
+            reputationStore: options.reputationStore,
+            maxVerificationGas: options.maxVerificationGas
         });
 
         // Routes
@@ -37,6 +85,11 @@ export class JsonRpcServer {
         // Init VM
         await this.simulationEnv.init();
 
+        // Tokenless admin access is what the bundler spec tests expect, but should be a deliberate choice
+        if (this.debugMethods && this.adminToken === undefined) {
+            console.warn('debug_bundler_* methods are enabled without an admin token: any client can change reputation');
+        }
+
         this.app.listen(this.port, () => {
             console.log(`UserOp Validator JSON-RPC server listening on port ${this.port}`);
             if (this.simulationEnv['provider']) {
@@ -56,6 +109,23 @@ export class JsonRpcServer {
             });
         }
 
+        if (ADMIN_METHODS.has(method)) {
+            if (!this.debugMethods) {
+                return res.json({
+                    jsonrpc: '2.0',
+                    error: { code: -32601, message: 'Method not found' },
+                    id
+                });
+            }
+            if (!this.isAdmin(req)) {
+                return res.status(401).json({
+                    jsonrpc: '2.0',
+                    error: { code: -32600, message: 'Unauthorized' },
+                    id: id || null
+                });
+            }
+        }
+
         try {
             let result: any;
 
@@ -66,6 +136,18 @@ export class JsonRpcServer {
                 case 'eth_validateUserOperations':
                     result = await this.handleValidateUserOps(params);
                     break;
+                case 'debug_traceUserOperation':
+                    result = await this.handleTraceUserOp(params);
+                    break;
+                case 'debug_bundler_dumpReputation':
+                    result = this.handleDumpReputation();
+                    break;
+                case 'debug_bundler_setReputation':
+                    result = this.handleSetReputation(params);
+                    break;
+                case 'debug_bundler_clearState':
+                    result = this.handleClearState();
+                    break;
                 case 'eth_chainId': // Helpful for tools checking connection
                     result = '0x1'; // Default to Mainnet for now, or match upstream if possible
                     break;
@@ -84,6 +166,18 @@ export class JsonRpcServer {
             });
 
         } catch (error: any) {
+            // Validation failures carry their ERC-4337 error code (and data); anything else is internal
+            if (typeof error.code === 'number') {
+                return res.json({
+                    jsonrpc: '2.0',
+                    error: {
+                        code: error.code,
+                        message: error.message,
+                        ...(error.data !== undefined ? { data: error.data } : {})
+                    },
+                    id
+                });
+            }
             console.error('RPC Error:', error);
             return res.json({
                 jsonrpc: '2.0',
@@ -102,10 +196,11 @@ export class JsonRpcServer {
             throw new Error('Missing params: [userOp, entryPoint?, chainId?]');
         }
 
-        const userOp = params[0] as PackedUserOperation;
+        const entryPoint: string = params[1] || this.entryPointAddress;
+        const userOp = this.toUserOp(params[0], entryPoint);
 
         // Run Simulation
-        const result = await this.simulationEnv.simulateValidation(userOp);
+        const result = await this.simulationEnv.simulateValidation(userOp, entryPoint);
 
         if (!result.isValid) {
             // Map violations to EIP-4337 standardized error codes
@@ -117,6 +212,7 @@ export class JsonRpcServer {
 
             const error = new Error(`Validation Failed: ${details}`) as any;
             error.code = errorCode;
+            error.data = this.getReputationErrorData(result);
             throw error;
         }
 
@@ -132,13 +228,14 @@ export class JsonRpcServer {
             throw new Error('Missing params: [[userOp1, userOp2, ...], entryPoint?, chainId?]');
         }
 
-        const userOps = params[0] as PackedUserOperation[];
+        const userOps = params[0] as (PackedUserOperation | UnpackedUserOperation | UserOperationV06)[];
+        const entryPoint: string = params[1] || this.entryPointAddress;
         const results: BatchValidationResult[] = [];
 
         for (let i = 0; i < userOps.length; i++) {
             const userOp = userOps[i];
             try {
-                const result = await this.simulationEnv.simulateValidation(userOp);
+                const result = await this.simulationEnv.simulateValidation(this.toUserOp(userOp, entryPoint), entryPoint);
 
                 if (result.isValid) {
                     results.push({
@@ -156,7 +253,8 @@ export class JsonRpcServer {
                         index: i,
                         isValid: false,
                         errorCode,
-                        error: details
+                        error: details,
+                        data: this.getReputationErrorData(result)
                     });
                 }
             } catch (err: any) {
@@ -173,17 +271,163 @@ export class JsonRpcServer {
     }
 
     /**
-     * Map validation violations to standardized EIP-4337 error codes
+     * Simulate a UserOperation with tracing enabled and return its call tree, storage accesses,
+     * opcodes, gas per phase and violations. Invalid operations are traced too.
+     * Params: [userOp, entryPoint?, { entity?, maxSteps? }?]
      */
-    private mapViolationsToErrorCode(result: { errors: string[]; violations: any[] }): ValidationErrorCode {
-        // Check violations first for specific codes
-        for (const v of result.violations) {
-            if (v.type === 'BANNED_OPCODE') {
-                return ValidationErrorCode.BANNED_OPCODE;
-            }
-            if (v.type === 'ILLEGAL_STORAGE_ACCESS') {
-                return ValidationErrorCode.INVALID_STORAGE;
+    private async handleTraceUserOp(params: unknown[]): Promise<UserOperationTrace> {
+        if (!params || params.length < 1) {
+            throw new Error('Missing params: [userOp, entryPoint?, { entity?, maxSteps? }?]');
+        }
+
+        const entryPoint = (params[1] as string | undefined) || this.entryPointAddress;
+        const options = (params[2] ?? {}) as TraceUserOperationOptions;
+        if (options.entity !== undefined && !Object.values(EntityType).includes(options.entity)) {
+            throw new Error(`Unknown entity: ${options.entity}`);
+        }
+        if (options.maxSteps !== undefined && !(Number.isInteger(options.maxSteps) && options.maxSteps >= 0)) {
+            throw new Error(`maxSteps must be a non-negative integer, got ${options.maxSteps}`);
+        }
+
+        // The method needs no token, so the server caps the steps a request can make it record
+        const traceOptions = { ...options, maxSteps: Math.min(options.maxSteps ?? this.maxTraceSteps, this.maxTraceSteps) };
+
+        const userOp = this.toUserOp(
+            params[0] as PackedUserOperation | UnpackedUserOperation | UserOperationV06,
+            entryPoint
+        );
+        const result = await this.simulationEnv.simulateValidation(userOp, entryPoint, {
+            trace: traceOptions,
+            updateReputation: false
+        });
+        return formatUserOperationTrace(result, traceOptions);
+    }
+
+    /**
+     * Reputation of every tracked entity. Params: [entryPoint?] (reputation is shared by all EntryPoints)
+     */
+    private handleDumpReputation(): ReputationDumpEntry[] {
+        return this.getReputationStore('getEntries').getEntries().map(entry => ({
+            address: entry.address,
+            opsSeen: toQuantity(entry.opsSeen),
+            opsIncluded: toQuantity(entry.opsIncluded),
+            status: REPUTATION_STATUS_NAMES[entry.status],
+        }));
+    }
+
+    /**
+     * Overwrite the reputation of entities. Params: [[{ address, opsSeen, opsIncluded }], entryPoint?]
+     * Counters may be hex quantities or numbers. Nothing is changed if any entry is invalid.
+     */
+    private handleSetReputation(params: unknown[]): string {
+        if (!params || !Array.isArray(params[0])) {
+            throw new Error('Missing params: [[{ address, opsSeen, opsIncluded }], entryPoint?]');
+        }
+
+        const entries = (params[0] as Partial<Record<keyof ReputationDumpEntry, unknown>>[]).map(entry => {
+            if (typeof entry?.address !== 'string' || !isAddress(entry.address)) {
+                throw new Error(`Invalid reputation address: ${entry?.address}`);
             }
+            return {
+                address: createAddressFromString(entry.address),
+                opsSeen: this.parseCount(entry.opsSeen, 'opsSeen'),
+                opsIncluded: this.parseCount(entry.opsIncluded, 'opsIncluded'),
+            };
+        });
+
+        const store = this.getReputationStore('setEntry');
+        for (const { address, opsSeen, opsIncluded } of entries) {
+            store.setEntry(address, opsSeen, opsIncluded);
+        }
+        return 'ok';
+    }
+
+    /**
+     * Reset the validator state: the validator keeps no mempool, so this clears the reputation
+     */
+    private handleClearState(): string {
+        this.getReputationStore('clearAll').clearAll();
+        return 'ok';
+    }
+
+    /**
+     * The reputation store, if it implements an optional admin method (custom stores may leave them out)
+     */
+    private getReputationStore<K extends 'getEntries' | 'setEntry' | 'clearAll'>(
+        method: K
+    ): Pick<Required<ReputationStore>, K> {
+        const store = this.simulationEnv.getReputationStore();
+        if (typeof store[method] !== 'function') {
+            throw Object.assign(new Error(`${method} is not supported by this reputation store`), { code: -32601 });
+        }
+        return store as Pick<Required<ReputationStore>, K>;
+    }
+
+    private parseCount(value: unknown, name: string): number {
+        const count = typeof value === 'number' ? value
+            : typeof value === 'string' && /^0x[0-9a-fA-F]+$/.test(value) ? Number(value)
+            : NaN;
+        if (!Number.isSafeInteger(count) || count < 0) {
+            throw new Error(`${name} must be a non-negative quantity, got ${value}`);
+        }
+        return count;
+    }
+
+    /**
+     * Whether the request carries the admin token (always true when none is configured)
+     */
+    private isAdmin(req: express.Request): boolean {
+        if (this.adminToken === undefined) {
+            return true;
+        }
+        const expected = Buffer.from(`Bearer ${this.adminToken}`);
+        const actual = Buffer.from(req.headers.authorization ?? '');
+        return actual.length === expected.length && timingSafeEqual(actual, expected);
+    }
+
+    /**
+     * Interprets a request UserOperation for the targeted EntryPoint.
+     * v0.7 accepts both the packed and the unpacked RPC form; v0.6 uses the legacy struct as-is.
+     */
+    private toUserOp(
+        userOp: PackedUserOperation | UnpackedUserOperation | UserOperationV06,
+        entryPoint: string
+    ): PackedUserOperation | UserOperationV06 {
+        if (getEntryPointVersion(entryPoint) === EntryPointVersion.V06) {
+            return userOp as UserOperationV06;
+        }
+        return normalizeUserOp(userOp as PackedUserOperation | UnpackedUserOperation);
+    }
+
+    /**
+     * The throttled or banned entity behind an ENTITY_THROTTLED / ENTITY_BANNED error (a banned one first)
+     */
+    private getReputationErrorData(result: SimulationResult): ReputationErrorData | undefined {
+        const rejections = result.reputationRejections ?? [];
+        const rejection = rejections.find(r => r.entry.status === ReputationStatus.BANNED) ?? rejections[0];
+        if (!rejection) {
+            return undefined;
+        }
+        return {
+            entity: rejection.entity,
+            address: rejection.address,
+            status: REPUTATION_STATUS_NAMES[rejection.entry.status] as ReputationErrorData['status'],
+        };
+    }
+
+    /**
+     * Map validation violations to standardized EIP-4337 error codes
+     */
+    private mapViolationsToErrorCode(result: SimulationResult): ValidationErrorCode {
+        // Prefer the code determined by the simulation itself (e.g. decoded validationData)
+        if (result.errorCode !== undefined) {
+            return result.errorCode;
+        }
+
+        // Violations map to a code by the ERC-7562 rule they break
+        const violationCode = getViolationsErrorCode(result.violations);
+        if (violationCode !== undefined) {
+            return violationCode;
         }
 
         // Check error messages for hints
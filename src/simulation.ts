@@ -1,17 +1,147 @@
 import { VM, createVM } from '@ethereumjs/vm';
-import { Address, Account, createAddressFromString, hexToBytes } from '@ethereumjs/util';
-import { JsonRpcProvider } from 'ethers';
-import { PackedUserOperation, SimulationResult, EntityType } from './types';
+import { EVMResult, Message } from '@ethereumjs/evm';
+import { Common } from '@ethereumjs/common';
+import { Address, Account, bytesToHex, createAddressFromString, hexToBytes, setLengthLeft } from '@ethereumjs/util';
+import { JsonRpcProvider, getCreateAddress, keccak256 } from 'ethers';
+import {
+    PackedUserOperation,
+    UserOperationV06,
+    SimulationResult,
+    EntityType,
+    ValidationData,
+    EntityStake,
+    ValidationErrorCode,
+    ValidationViolation,
+    PhaseGasUsed,
+    ReputationRejection,
+    TraceUserOperationOptions
+} from './types';
 import {
     validateExecutionRules,
     createValidationContext,
     setCurrentEntity,
+    trackEntitiesByCallFrame,
+    trackStateAccess,
     ValidationContext
 } from './validator';
-import { ReputationStore, InMemoryReputationStore, ReputationStatus } from './reputation';
+import { traceExecution } from './tracer';
+import { ReputationStore, InMemoryReputationStore, ReputationOptions, ReputationStatus } from './reputation';
+import { getUserOpHash, getUserOpHashV06, getUserOpHashV08 } from './userop-hash';
+import {
+    encodeValidateUserOp,
+    encodeValidatePaymasterUserOp,
+    encodeValidateUserOpV06,
+    encodeValidatePaymasterUserOpV06,
+    encodeSimulateValidation,
+    ACCOUNT_INTERFACE,
+    PAYMASTER_INTERFACE,
+    ENTRYPOINT_SIMULATIONS_INTERFACE
+} from './calldata';
+import { ENTRYPOINT_SIMULATIONS_V07_BYTECODE, SENDER_CREATOR_V07_BYTECODE } from './entrypoint-bytecode';
+import {
+    DEFAULT_MIN_STAKE,
+    DEFAULT_MIN_UNSTAKE_DELAY,
+    STAKE_MANAGER_INTERFACE,
+    isStaked,
+    readStakeInfo
+} from './stake';
+import { EntryPointVersion, ENTRYPOINT_V07_ADDRESS, getEntryPointVersion } from './entrypoint';
+import {
+    isEip7702InitCode,
+    getEip7702InitData,
+    getDelegationDesignator,
+    parseDelegationDesignator,
+    recoverAuthority
+} from './eip7702';
+import { parseValidationData, checkValidityRange } from './validation-data';
+import {
+    DEFAULT_MIN_GAS_EFFICIENCY,
+    checkMaxVerificationGas,
+    checkVerificationGasUsage,
+    getVerificationGasLimits
+} from './gas';
+
+// Minimum time (seconds) a UserOperation must remain valid after simulation
+const DEFAULT_VALIDITY_GRACE_PERIOD = 30;
+
+// Caller and gas budget of the EntryPointSimulations.simulateValidation call
+const SIMULATION_CALLER = createAddressFromString('0x0000000000000000000000000000000000000000');
+const ENTRYPOINT_SIMULATION_GAS_LIMIT = BigInt(30000000);
+
+/**
+ * Errors and error code of a UserOperation with throttled or banned entities; a ban takes precedence
+ */
+function describeReputationRejections(
+    rejections: ReputationRejection[]
+): { errors: string[]; errorCode: ValidationErrorCode } {
+    const banned = rejections.some(rejection => rejection.entry.status === ReputationStatus.BANNED);
+    return {
+        errors: rejections.map(({ entity, address, entry }) =>
+            `${entity.charAt(0)}${entity.slice(1).toLowerCase()} ${address} is ${ReputationStatus[entry.status]}`),
+        errorCode: banned ? ValidationErrorCode.ENTITY_BANNED : ValidationErrorCode.ENTITY_THROTTLED,
+    };
+}
+
+/**
+ * Whether the violations include one caused by an entity in `accountable`.
+ * Running out of gas follows from the gas limits the UserOperation set, so it is not held against the entity.
+ */
+function hasEntityFault(violations: ValidationViolation[], accountable: EntityType[]): boolean {
+    return violations.some(v => accountable.includes(v.entity) && v.type !== 'OUT_OF_GAS');
+}
 
-// Standard EntryPoint address (v0.7)
-const ENTRYPOINT_ADDRESS = '0x0000000071727De22E5E9d8BAf0edAc6f37da032';
+/**
+ * Address at which EntryPointSimulations expects its SenderCreator:
+ * the first contract created by the EntryPoint (CREATE with nonce 1)
+ */
+export function getSenderCreatorAddress(entryPoint: string): string {
+    return getCreateAddress({ from: entryPoint, nonce: 1 });
+}
+
+export interface SimulationOptions {
+    /** EntryPoint address (defaults to the canonical v0.7 deployment) */
+    entryPointAddress?: string;
+    /** Upstream RPC used for state forking */
+    rpcUrl?: string;
+    /** Seconds a UserOperation must stay valid past `validUntil` checks (default 30) */
+    validityGracePeriod?: number;
+    /**
+     * Run validation through the bundled EntryPoint v0.7 bytecode (EntryPointSimulations.simulateValidation)
+     * instead of calling each entity directly
+     */
+    useEntryPointBytecode?: boolean;
+    /** Minimum stake (wei) for an entity to count as staked (default 1 ETH) */
+    minStake?: bigint;
+    /** Minimum unstake delay (seconds) for an entity to count as staked (default 1 day) */
+    minUnstakeDelay?: number;
+    /** Stakes by entity address; overrides the EntryPoint deposit info */
+    stakes?: Record<string, EntityStake>;
+    /** Chain and hardfork to simulate (defaults to mainnet at the latest hardfork); selects the opcode rules */
+    common?: Common;
+    /** Precompiles accepted during validation (defaults to the allowlist of the simulated chain) */
+    precompiles?: string[];
+    /** Percent of a validation gas limit that must be used to avoid an inefficiency warning (default 10) */
+    minGasEfficiency?: number;
+    /** Largest verificationGasLimit / paymasterVerificationGasLimit simulated; larger ops are rejected (no limit by default) */
+    maxVerificationGas?: bigint;
+    /** Reputation thresholds and clock (defaults to the ERC-7562 bundler values and Date.now) */
+    reputation?: ReputationOptions;
+    /** Reputation store to use instead of an in-memory one (e.g. a FileReputationStore); ignores `reputation` */
+    reputationStore?: ReputationStore;
+}
+
+/**
+ * Per-call options of `simulateValidation`
+ */
+export interface SimulateValidationOptions {
+    /**
+     * Record steps, call frames and storage accesses into `SimulationResult.trace`.
+     * Options bound the recorded steps (default `DEFAULT_TRACE_STEP_LIMIT`) or keep one entity's steps.
+     */
+    trace?: boolean | TraceUserOperationOptions;
+    /** Penalize the entities that broke the validation rules in the reputation store (default true) */
+    updateReputation?: boolean;
+}
 
 /**
  * Manages the simulation environment for UserOperation validation.
@@ -22,10 +152,30 @@ export class SimulationEnvironment {
     private entryPointAddress: Address;
     private reputationStore: ReputationStore;
     private provider: JsonRpcProvider | null = null;
+    private validityGracePeriod: number;
+    private useEntryPointBytecode: boolean;
+    private minStake: bigint;
+    private minUnstakeDelay: number;
+    private stakes: Map<string, EntityStake>;
+    private common?: Common;
+    private precompiles?: string[];
+    private minGasEfficiency: number;
+    private maxVerificationGas?: bigint;
 
-    constructor(options?: { entryPointAddress?: string; rpcUrl?: string }) {
-        this.entryPointAddress = createAddressFromString(options?.entryPointAddress || ENTRYPOINT_ADDRESS);
-        this.reputationStore = new InMemoryReputationStore();
+    constructor(options?: SimulationOptions) {
+        this.entryPointAddress = createAddressFromString(options?.entryPointAddress || ENTRYPOINT_V07_ADDRESS);
+        this.reputationStore = options?.reputationStore ?? new InMemoryReputationStore(options?.reputation);
+        this.validityGracePeriod = options?.validityGracePeriod ?? DEFAULT_VALIDITY_GRACE_PERIOD;
+        this.useEntryPointBytecode = options?.useEntryPointBytecode ?? false;
+        this.common = options?.common;
+        this.precompiles = options?.precompiles;
+        this.minGasEfficiency = options?.minGasEfficiency ?? DEFAULT_MIN_GAS_EFFICIENCY;
+        this.maxVerificationGas = options?.maxVerificationGas;
+        this.minStake = options?.minStake ?? DEFAULT_MIN_STAKE;
+        this.minUnstakeDelay = options?.minUnstakeDelay ?? DEFAULT_MIN_UNSTAKE_DELAY;
+        this.stakes = new Map(
+            Object.entries(options?.stakes ?? {}).map(([address, stake]) => [address.toLowerCase(), stake])
+        );
         if (options?.rpcUrl) {
             this.provider = new JsonRpcProvider(options.rpcUrl);
         }
@@ -36,7 +186,7 @@ export class SimulationEnvironment {
      * This must be called before using the VM.
      */
     async init(): Promise<void> {
-        this.vm = await createVM();
+        this.vm = await createVM({ common: this.common });
     }
 
     /**
@@ -71,6 +221,28 @@ export class SimulationEnvironment {
         await vm.stateManager.putCode(entryPointAddress, mockCode);
     }
 
+    /**
+     * Deploys the genuine EntryPoint v0.7 (as EntryPointSimulations) and its SenderCreator.
+     * Existing storage at the EntryPoint address (deposits, nonces) is preserved.
+     * @param address The address to deploy the EntryPoint to.
+     */
+    async deployEntryPoint(address: string): Promise<void> {
+        const vm = this.getVM();
+        const entryPointAddress = createAddressFromString(address);
+        const code = hexToBytes(ENTRYPOINT_SIMULATIONS_V07_BYTECODE as `0x${string}`);
+
+        const existing = await vm.stateManager.getCode(entryPointAddress);
+        if (bytesToHex(existing) === ENTRYPOINT_SIMULATIONS_V07_BYTECODE) {
+            return;
+        }
+
+        await vm.stateManager.putCode(entryPointAddress, code);
+        await vm.stateManager.putCode(
+            createAddressFromString(getSenderCreatorAddress(address)),
+            hexToBytes(SENDER_CREATOR_V07_BYTECODE as `0x${string}`)
+        );
+    }
+
     /**
      * Deploys code at a specific address
      */
@@ -83,13 +255,45 @@ export class SimulationEnvironment {
      * Simulates the validation of a UserOperation.
      * This is the main entry point for validation simulation.
      * 
-     * @param userOp The UserOperation to validate
+     * @param userOp The UserOperation to validate (PackedUserOperation for v0.7/v0.8, UserOperationV06 for v0.6)
+     * @param entryPoint EntryPoint the operation targets; selects the v0.6, v0.7 or v0.8 validation path.
+     *                   Defaults to the environment's EntryPoint.
+     * @param options Per-call options, e.g. tracing
      * @returns SimulationResult with validation status and any violations
      */
-    async simulateValidation(userOp: PackedUserOperation): Promise<SimulationResult> {
+    async simulateValidation(
+        userOp: PackedUserOperation | UserOperationV06,
+        entryPoint?: string,
+        options?: SimulateValidationOptions
+    ): Promise<SimulationResult> {
         const vm = this.getVM();
+        const entryPointAddress = entryPoint ? createAddressFromString(entryPoint) : this.entryPointAddress;
+        const version = getEntryPointVersion(entryPointAddress);
+
+        const isV06UserOp = !('accountGasLimits' in userOp);
+        if ((version === EntryPointVersion.V06) !== isV06UserOp) {
+            return {
+                isValid: false,
+                errors: [`UserOperation format does not match EntryPoint v${version} at ${entryPointAddress}`],
+                violations: [],
+            };
+        }
+
+        // Simulation time grows with the gas: refuse budgets above the maximum before running anything
+        if (this.maxVerificationGas !== undefined) {
+            const gasLimitErrors = checkMaxVerificationGas(userOp, this.maxVerificationGas);
+            if (gasLimitErrors.length > 0) {
+                return { isValid: false, errors: gasLimitErrors, violations: [] };
+            }
+        }
+
         const sender = createAddressFromString(userOp.sender);
         const errors: string[] = [];
+        const warnings: string[] = [];
+        const gasUsed: PhaseGasUsed = {};
+        let errorCode: ValidationErrorCode | undefined;
+        let senderValidationData: ValidationData | undefined;
+        let paymasterValidationData: ValidationData | undefined;
 
         // Parse factory and paymaster from packed fields
         const factory = this.parseFactory(userOp.initCode);
@@ -100,50 +304,90 @@ export class SimulationEnvironment {
             await this.prefetchState(sender, factory, paymaster);
         }
 
-        // 0. Reputation Check
-        if (paymaster) {
-            const status = this.reputationStore.getStatus(paymaster);
-            if (status === ReputationStatus.BANNED) {
-                return { isValid: false, errors: [`Paymaster ${paymaster} is BANNED`], violations: [] };
-            }
-            if (status === ReputationStatus.THROTTLED) {
-                return { isValid: false, errors: [`Paymaster ${paymaster} is THROTTLED`], violations: [] };
-            }
+        const entities: [EntityType, Address | undefined][] = [
+            [EntityType.SENDER, sender],
+            [EntityType.FACTORY, factory],
+            [EntityType.PAYMASTER, paymaster],
+        ];
+
+        // 0. Reputation Check (the aggregator is checked once the account names it)
+        const reputationRejections = this.checkReputation(entities);
+        if (reputationRejections.length > 0) {
+            return {
+                isValid: false,
+                ...describeReputationRejections(reputationRejections),
+                violations: [],
+                reputationRejections,
+            };
         }
-        if (factory) {
-            const status = this.reputationStore.getStatus(factory);
-            if (status === ReputationStatus.BANNED) {
-                return { isValid: false, errors: [`Factory ${factory} is BANNED`], violations: [] };
-            }
-            if (status === ReputationStatus.THROTTLED) {
-                return { isValid: false, errors: [`Factory ${factory} is THROTTLED`], violations: [] };
+
+        // Look up which entities are staked
+        const stakedEntities: EntityType[] = [];
+        for (const [entity, address] of entities) {
+            if (address && await this.isEntityStaked(address, entryPointAddress)) {
+                stakedEntities.push(entity);
             }
         }
 
         // Create validation context
         const context = createValidationContext({
             sender,
-            entryPoint: this.entryPointAddress,
+            entryPoint: entryPointAddress,
             factory,
             paymaster,
             throwOnViolation: false, // Collect all violations
+            stakedEntities,
+            precompiles: this.precompiles,
         });
 
         // Attach validation rules
         const cleanup = validateExecutionRules(vm, context);
+        const stopStateTracking = trackStateAccess(vm, context);
+        const tracer = options?.trace
+            ? traceExecution(vm, context, options.trace === true ? {} : options.trace)
+            : undefined;
 
+        // Like eth_call, validation leaves no state behind: its changes are reverted afterwards
+        await vm.stateManager.checkpoint();
         try {
-            // Phase 1: Factory validation (if initCode is present)
-            if (factory) {
-                await this.simulateFactoryValidation(vm, context, userOp.initCode);
+            const chainId = vm.common.chainId();
+
+            // EIP-7702: install the delegation and resolve the sender's delegate
+            let delegate: string | undefined;
+            if (!isV06UserOp) {
+                delegate = await this.applyEip7702Authorization(vm, userOp as PackedUserOperation, sender, chainId);
             }
 
-            // Phase 2: Sender validation (validateUserOp)
-            await this.simulateSenderValidation(vm, context);
+            // Run the validation phases, either through the EntryPoint contract or by calling each entity
+            const validationData = this.useEntryPointBytecode
+                ? await this.simulateEntryPointValidation(vm, context, userOp, version, gasUsed)
+                : await this.simulateEntityValidation(vm, context, userOp, version, chainId, gasUsed, delegate);
+            senderValidationData = validationData.sender;
+            paymasterValidationData = validationData.paymaster;
 
-            // Phase 3: Paymaster validation (if paymaster is present)
-            if (paymaster) {
-                await this.simulatePaymasterValidation(vm, context);
+            // Compare the gas each phase used with the limits the UserOperation declares
+            const gasCheck = checkVerificationGasUsage(userOp, gasUsed, this.minGasEfficiency);
+            errors.push(...gasCheck.errors);
+            warnings.push(...gasCheck.warnings);
+
+            // Enforce signature and time range results
+            const now = Math.floor(Date.now() / 1000);
+            if (senderValidationData) {
+                errorCode = this.checkValidationData(senderValidationData, EntityType.SENDER, now, errors);
+            }
+            if (paymasterValidationData && errorCode === undefined) {
+                errorCode = this.checkValidationData(paymasterValidationData, EntityType.PAYMASTER, now, errors);
+            }
+
+            const aggregator = senderValidationData?.sigFailed === false &&
+                BigInt(senderValidationData.aggregator) !== BigInt(0)
+                ? createAddressFromString(senderValidationData.aggregator)
+                : undefined;
+            reputationRejections.push(...this.checkReputation([[EntityType.AGGREGATOR, aggregator]]));
+            if (reputationRejections.length > 0) {
+                const rejected = describeReputationRejections(reputationRejections);
+                errors.push(...rejected.errors);
+                errorCode = rejected.errorCode;
             }
 
         } catch (error) {
@@ -154,56 +398,474 @@ export class SimulationEnvironment {
             }
         } finally {
             cleanup();
+            stopStateTracking();
+            tracer?.stop();
+            await vm.stateManager.revert();
         }
 
-        // Update Reputation
-        // We penalize if the specific entity caused a violation.
-        // If there are general errors, we might not attribute them easily without more fine-grained error handling,
-        // but for now, we rely on context.violations having the entity set.
-
-        if (paymaster) {
-            const paymasterViolations = context.violations.filter(v => v.entity === EntityType.PAYMASTER);
-            const isPaymasterValid = paymasterViolations.length === 0;
-            // Also consider errors if we tracked which phase they occurred in, but for now just violations.
-            this.reputationStore.updateStatus(paymaster, isPaymasterValid);
+        // The code and storage the validation depended on, for revalidation [COD-010]
+        const accessedCode: SimulationResult['accessedCode'] = {};
+        for (const [entity, addresses] of context.accessedAddresses) {
+            const hashes: Record<string, string> = {};
+            for (const address of addresses) {
+                hashes[address] = await this.getCodeHash(vm, address);
+            }
+            accessedCode[entity] = hashes;
         }
+        const storageReads: SimulationResult['storageReads'] = {};
+        for (const [address, slots] of context.readSlots) {
+            storageReads[address] = {};
+            for (const slot of slots) {
+                storageReads[address][slot] = await this.getStorageValue(vm, address, slot);
+            }
+        }
+
+        // Update Reputation
+        // Every validated operation counts as seen; rule violations the entity caused add the configured penalty
+        if (options?.updateReputation ?? true) {
+            if (paymaster) {
+                this.reputationStore.updateStatus(
+                    paymaster,
+                    !hasEntityFault(context.violations, [EntityType.PAYMASTER])
+                );
+            }
 
-        if (factory) {
-            const factoryViolations = context.violations.filter(v => v.entity === EntityType.FACTORY);
-            const isFactoryValid = factoryViolations.length === 0;
-            this.reputationStore.updateStatus(factory, isFactoryValid);
+            if (factory) {
+                // [EREP-020] A staked factory is accountable for the account it deploys
+                const accountable = context.stakedEntities.has(EntityType.FACTORY)
+                    ? [EntityType.FACTORY, EntityType.SENDER]
+                    : [EntityType.FACTORY];
+                this.reputationStore.updateStatus(factory, !hasEntityFault(context.violations, accountable));
+            }
         }
 
         return {
             isValid: context.violations.length === 0 && errors.length === 0,
             errors,
             violations: context.violations,
+            errorCode,
+            senderValidationData,
+            paymasterValidationData,
+            gasUsed: Object.values(gasUsed).reduce((total, used) => total + used, BigInt(0)),
+            phaseGasUsed: gasUsed,
+            warnings,
+            trace: tracer?.trace,
+            accessedCode,
+            storageReads,
+            reputationRejections,
         };
     }
 
     /**
-     * Simulates factory deployment (Phase 1)
+     * Re-simulates a UserOperation before inclusion, failing if the state its earlier validation depended on
+     * has changed since: the code of a contract an entity accessed (COD-010, e.g. a CREATE2 redeployment)
+     * or the value of a storage slot it read.
+     *
+     * @param userOp The UserOperation that was validated
+     * @param previousResult Result of the earlier `simulateValidation` of the operation
+     * @param entryPoint EntryPoint the operation targets (defaults to the environment's EntryPoint)
+     */
+    async revalidate(
+        userOp: PackedUserOperation | UserOperationV06,
+        previousResult: SimulationResult,
+        entryPoint?: string
+    ): Promise<SimulationResult> {
+        const vm = this.getVM();
+        const violations: ValidationViolation[] = [];
+        const errors: string[] = [];
+
+        for (const [entity, hashes] of Object.entries(previousResult.accessedCode ?? {})) {
+            for (const [address, codeHash] of Object.entries(hashes ?? {})) {
+                if (await this.getCodeHash(vm, address) !== codeHash) {
+                    violations.push({
+                        type: 'CODE_CHANGED',
+                        rule: 'COD-010',
+                        severity: 'error',
+                        entity: entity as EntityType,
+                        message: `Code of ${address} accessed by ${entity} changed since validation (COD-010)`,
+                        address,
+                    });
+                }
+            }
+        }
+
+        for (const [address, slots] of Object.entries(previousResult.storageReads ?? {})) {
+            for (const [slot, value] of Object.entries(slots)) {
+                const current = await this.getStorageValue(vm, address, slot);
+                if (current !== value) {
+                    errors.push(`Storage slot ${slot} of ${address} changed since validation: ${value} -> ${current}`);
+                }
+            }
+        }
+
+        // The operation was already judged when it was first validated
+        const result = await this.simulateValidation(userOp, entryPoint, { updateReputation: false });
+        return {
+            ...result,
+            isValid: result.isValid && violations.length === 0 && errors.length === 0,
+            errors: [...errors, ...result.errors],
+            violations: [...violations, ...result.violations],
+        };
+    }
+
+    /**
+     * Throttled and banned entities among `entities`, with a snapshot of their reputation
+     */
+    private checkReputation(entities: [EntityType, Address | undefined][]): ReputationRejection[] {
+        const rejections: ReputationRejection[] = [];
+        for (const [entity, address] of entities) {
+            if (!address) continue;
+            const status = this.reputationStore.getStatus(address);
+            if (status !== ReputationStatus.OK) {
+                const entry = this.reputationStore.getEntry(address) ?? { address: address.toString(), opsSeen: 0, opsIncluded: 0 };
+                rejections.push({ entity, address: address.toString(), entry: { ...entry, status } });
+            }
+        }
+        return rejections;
+    }
+
+    /**
+     * keccak256 of the code at an address (the hash of empty code if it has none)
+     */
+    private async getCodeHash(vm: VM, address: string): Promise<string> {
+        return keccak256(await vm.stateManager.getCode(createAddressFromString(address)));
+    }
+
+    /**
+     * Value of a storage slot as a 32-byte word
+     */
+    private async getStorageValue(vm: VM, address: string, slot: string): Promise<string> {
+        const value = await vm.stateManager.getStorage(
+            createAddressFromString(address),
+            hexToBytes(slot as `0x${string}`)
+        );
+        return bytesToHex(setLengthLeft(value, 32));
+    }
+
+    /**
+     * Runs the validation phases by calling the factory, sender and paymaster directly,
+     * with the EntryPoint address as caller.
+     */
+    private async simulateEntityValidation(
+        vm: VM,
+        context: ValidationContext,
+        userOp: PackedUserOperation | UserOperationV06,
+        version: EntryPointVersion,
+        chainId: bigint,
+        gasUsed: PhaseGasUsed,
+        delegate?: string
+    ): Promise<{ sender?: ValidationData; paymaster?: ValidationData }> {
+        const entryPoint = context.entryPoint.toString();
+        let userOpHash: string;
+        if (version === EntryPointVersion.V06) {
+            userOpHash = getUserOpHashV06(userOp as UserOperationV06, entryPoint, chainId);
+        } else if (version === EntryPointVersion.V08) {
+            userOpHash = getUserOpHashV08(userOp as PackedUserOperation, entryPoint, chainId, delegate);
+        } else {
+            userOpHash = getUserOpHash(userOp as PackedUserOperation, entryPoint, chainId);
+        }
+
+        // Account creation and validateUserOp share verificationGasLimit; the paymaster has its own budget
+        const { verificationGasLimit, paymasterVerificationGasLimit } = getVerificationGasLimits(userOp);
+
+        // Phase 1: Factory validation (if initCode is present)
+        const senderDeployed = (await vm.stateManager.getCode(context.sender)).length > 0;
+        if (context.factory) {
+            if (senderDeployed) {
+                throw new Error(`AA10 sender already constructed: ${context.sender} has code but initCode is set`);
+            }
+            await this.simulateFactoryValidation(vm, context, userOp.initCode, verificationGasLimit, gasUsed);
+        } else if (isEip7702InitCode(userOp.initCode)) {
+            if (getEip7702InitData(userOp.initCode) !== '0x') {
+                await this.simulateEip7702Initialization(
+                    vm, context, getEip7702InitData(userOp.initCode), verificationGasLimit, gasUsed
+                );
+            }
+        } else if (!senderDeployed) {
+            throw new Error(`AA20 account not deployed: ${context.sender} has no code and initCode is empty`);
+        }
+
+        // Phase 2: Sender validation (validateUserOp)
+        const creationGasUsed = gasUsed.factory ?? BigInt(0);
+        const senderGasLimit = verificationGasLimit > creationGasUsed ? verificationGasLimit - creationGasUsed : BigInt(0);
+        const sender = await this.simulateSenderValidation(
+            vm, context, userOp, version, userOpHash, senderGasLimit, gasUsed
+        );
+
+        // Phase 3: Paymaster validation (if paymaster is present)
+        let paymaster: ValidationData | undefined;
+        if (context.paymaster) {
+            paymaster = await this.simulatePaymasterValidation(
+                vm, context, userOp, version, userOpHash, paymasterVerificationGasLimit, gasUsed
+            );
+        }
+
+        return { sender, paymaster };
+    }
+
+    /**
+     * Runs validation through the genuine EntryPoint v0.7 code by calling
+     * `EntryPointSimulations.simulateValidation`, so nonces, deposits, prefund and account deployment
+     * behave as on-chain. Opcodes are attributed to entities by call frame.
+     */
+    private async simulateEntryPointValidation(
+        vm: VM,
+        context: ValidationContext,
+        userOp: PackedUserOperation | UserOperationV06,
+        version: EntryPointVersion,
+        gasUsed: PhaseGasUsed
+    ): Promise<{ sender?: ValidationData; paymaster?: ValidationData }> {
+        if (version !== EntryPointVersion.V07) {
+            throw new Error(`EntryPoint bytecode simulation is only available for v0.7 (target: v${version})`);
+        }
+
+        const entryPoint = context.entryPoint.toString();
+        await this.deployEntryPoint(entryPoint);
+
+        setCurrentEntity(context, EntityType.ENTRYPOINT);
+        const senderCreator = createAddressFromString(getSenderCreatorAddress(entryPoint));
+        const stopTracking = trackEntitiesByCallFrame(vm, context, senderCreator);
+        const stopMetering = this.trackPhaseGas(vm, context, senderCreator, gasUsed);
+
+        let result;
+        try {
+            result = await vm.evm.runCall({
+                to: context.entryPoint,
+                caller: SIMULATION_CALLER,
+                origin: SIMULATION_CALLER,
+                data: hexToBytes(encodeSimulateValidation(userOp as PackedUserOperation) as `0x${string}`),
+                gasLimit: ENTRYPOINT_SIMULATION_GAS_LIMIT,
+            });
+        } finally {
+            stopTracking();
+            stopMetering();
+        }
+
+        const { exceptionError, returnValue } = result.execResult;
+        if (exceptionError) {
+            throw new Error(this.decodeEntryPointRevert(returnValue, exceptionError.error));
+        }
+
+        const [validationResult] = ENTRYPOINT_SIMULATIONS_INTERFACE.decodeFunctionResult('simulateValidation', returnValue);
+        if (context.paymaster) {
+            this.checkPaymasterContext(context, validationResult.returnInfo.paymasterContext);
+        }
+        return {
+            sender: parseValidationData(validationResult.returnInfo.accountValidationData),
+            paymaster: context.paymaster
+                ? parseValidationData(validationResult.returnInfo.paymasterValidationData)
+                : undefined,
+        };
+    }
+
+    /**
+     * Records the gas of the calls the EntryPoint makes into the SenderCreator (account creation),
+     * the sender and the paymaster while it runs the validation phases
+     */
+    private trackPhaseGas(
+        vm: VM,
+        context: ValidationContext,
+        senderCreator: Address,
+        gasUsed: PhaseGasUsed
+    ): () => void {
+        const phases: (keyof PhaseGasUsed | undefined)[] = [];
+
+        const beforeMessage = async (message: Message, next?: (error?: unknown) => void) => {
+            let phase: keyof PhaseGasUsed | undefined;
+            if (message.caller.equals(context.entryPoint)) {
+                if (message.to?.equals(senderCreator)) phase = 'factory';
+                else if (message.to?.equals(context.sender)) phase = 'account';
+                else if (context.paymaster && message.to?.equals(context.paymaster)) phase = 'paymaster';
+            }
+            phases.push(phase);
+            if (next) next();
+        };
+
+        const afterMessage = async (result: EVMResult, next?: (error?: unknown) => void) => {
+            const phase = phases.pop();
+            if (phase) {
+                gasUsed[phase] = (gasUsed[phase] ?? BigInt(0)) + result.execResult.executionGasUsed;
+            }
+            if (next) next();
+        };
+
+        vm.evm.events?.on('beforeMessage', beforeMessage);
+        vm.evm.events?.on('afterMessage', afterMessage);
+
+        return () => {
+            vm.evm.events?.removeListener('beforeMessage', beforeMessage);
+            vm.evm.events?.removeListener('afterMessage', afterMessage);
+        };
+    }
+
+    /**
+     * Turns an EntryPoint revert (FailedOp / FailedOpWithRevert) into a readable error message
+     */
+    private decodeEntryPointRevert(returnValue: Uint8Array, fallback: string): string {
+        try {
+            const error = ENTRYPOINT_SIMULATIONS_INTERFACE.parseError(returnValue);
+            if (error?.name === 'FailedOp') {
+                return error.args.reason;
+            }
+            if (error?.name === 'FailedOpWithRevert') {
+                return `${error.args.reason}: ${error.args.inner}`;
+            }
+        } catch {
+            // Not an EntryPoint error; fall through
+        }
+        return `EntryPoint reverted: ${fallback} ${bytesToHex(returnValue)}`;
+    }
+
+    /**
+     * Turns a signature failure or an unacceptable time range into an error.
+     * Error prefixes follow the EntryPoint revert reasons (AA2x for the account, AA3x for the paymaster).
+     * @returns The matching error code, or undefined if the validationData is acceptable
+     */
+    private checkValidationData(
+        data: ValidationData,
+        entity: EntityType,
+        now: number,
+        errors: string[]
+    ): ValidationErrorCode | undefined {
+        const isPaymaster = entity === EntityType.PAYMASTER;
+
+        if (data.sigFailed) {
+            errors.push(isPaymaster ? 'AA34 signature error' : 'AA24 signature error');
+            return ValidationErrorCode.INVALID_SIGNATURE;
+        }
+        // Signature aggregators are not supported; a paymaster may not return one at all
+        if (BigInt(data.aggregator) !== BigInt(0)) {
+            errors.push(isPaymaster
+                ? `AA34 signature error: paymaster returned aggregator ${data.aggregator}`
+                : `AA24 signature error: unsupported aggregator ${data.aggregator}`);
+            return ValidationErrorCode.INVALID_SIGNATURE;
+        }
+
+        const rangeError = checkValidityRange(data, now, this.validityGracePeriod);
+        if (rangeError) {
+            errors.push(isPaymaster
+                ? `AA32 paymaster expired or not due: ${rangeError}`
+                : `AA22 expired or not due: ${rangeError}`);
+            return isPaymaster ? ValidationErrorCode.REJECTED_BY_PAYMASTER : ValidationErrorCode.REJECTED_BY_EP;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Simulates factory deployment (Phase 1) through the EntryPoint's SenderCreator
+     * and checks that the factory deployed `userOp.sender`
      */
     private async simulateFactoryValidation(
         vm: VM,
         context: ValidationContext,
-        initCode: string
+        initCode: string,
+        gasLimit: bigint,
+        gasUsed: PhaseGasUsed
     ): Promise<void> {
         setCurrentEntity(context, EntityType.FACTORY);
 
         const factory = context.factory!;
+        const senderCreator = createAddressFromString(getSenderCreatorAddress(context.entryPoint.toString()));
 
         // initCode = factory address (20 bytes) + calldata
         const initCodeBytes = hexToBytes(initCode as `0x${string}`);
         const callData = initCodeBytes.slice(20);
 
-        // Simulate the factory call
-        await vm.evm.runCall({
+        // Simulate the factory call the way the EntryPoint does: through its SenderCreator
+        const result = await vm.evm.runCall({
             to: factory,
-            caller: this.entryPointAddress,
+            caller: senderCreator,
             data: callData,
-            gasLimit: BigInt(1000000),
+            gasLimit,
+        });
+        gasUsed.factory = result.execResult.executionGasUsed;
+
+        const { exceptionError, returnValue } = result.execResult;
+        if (exceptionError) {
+            throw new Error(`AA13 initCode failed or OOG: ${exceptionError.error}`);
+        }
+        if (returnValue.length < 32) {
+            throw new Error('AA13 initCode failed or OOG: factory returned no address');
+        }
+
+        const created = createAddressFromString(bytesToHex(returnValue.slice(12, 32)));
+        if (!created.equals(context.sender)) {
+            throw new Error(`AA14 initCode must return sender: factory returned ${created}, expected ${context.sender}`);
+        }
+
+        const code = await vm.stateManager.getCode(context.sender);
+        if (code.length === 0) {
+            throw new Error(`AA15 initCode must create sender: no code at ${context.sender} after deployment`);
+        }
+    }
+
+    /**
+     * Applies the UserOperation's EIP-7702 authorization (if any) by installing the delegation
+     * designator code at the sender, after checking the authorization matches the chain, the sender's
+     * nonce and was signed by the sender.
+     * @returns The sender's delegate, or undefined if the sender is not delegated
+     */
+    private async applyEip7702Authorization(
+        vm: VM,
+        userOp: PackedUserOperation,
+        sender: Address,
+        chainId: bigint
+    ): Promise<string | undefined> {
+        const auth = userOp.eip7702Auth;
+
+        if (auth) {
+            const authChainId = BigInt(auth.chainId);
+            if (authChainId !== 0n && authChainId !== chainId) {
+                throw new Error(`EIP-7702 authorization is for chain ${authChainId}, expected ${chainId}`);
+            }
+
+            const account = await vm.stateManager.getAccount(sender);
+            const accountNonce = account?.nonce ?? 0n;
+            if (BigInt(auth.nonce) !== accountNonce) {
+                throw new Error(`EIP-7702 authorization nonce ${BigInt(auth.nonce)} does not match sender nonce ${accountNonce}`);
+            }
+
+            const authority = recoverAuthority(auth);
+            if (!sender.equals(createAddressFromString(authority))) {
+                throw new Error(`EIP-7702 authorization signed by ${authority}, not by sender ${sender}`);
+            }
+
+            await vm.stateManager.putCode(sender, hexToBytes(getDelegationDesignator(auth.address) as `0x${string}`));
+            return auth.address;
+        }
+
+        const delegate = parseDelegationDesignator(bytesToHex(await vm.stateManager.getCode(sender)));
+        if (!delegate && isEip7702InitCode(userOp.initCode)) {
+            throw new Error(`EIP-7702 initCode used but sender ${sender} is not delegated and no eip7702Auth was given`);
+        }
+        return delegate;
+    }
+
+    /**
+     * Calls the delegated sender with the initialization data following the EIP-7702 initCode marker
+     * (v0.8 runs this in place of a factory call)
+     */
+    private async simulateEip7702Initialization(
+        vm: VM,
+        context: ValidationContext,
+        initData: string,
+        gasLimit: bigint,
+        gasUsed: PhaseGasUsed
+    ): Promise<void> {
+        setCurrentEntity(context, EntityType.SENDER);
+
+        const result = await vm.evm.runCall({
+            to: context.sender,
+            caller: context.entryPoint,
+            data: hexToBytes(initData as `0x${string}`),
+            gasLimit,
         });
+        gasUsed.factory = result.execResult.executionGasUsed;
+
+        if (result.execResult.exceptionError) {
+            throw new Error(`EIP-7702 sender initialization reverted: ${result.execResult.exceptionError.error}`);
+        }
     }
 
     /**
@@ -212,27 +874,43 @@ export class SimulationEnvironment {
     private async simulateSenderValidation(
         vm: VM,
         context: ValidationContext,
-
-    ): Promise<void> {
+        userOp: PackedUserOperation | UserOperationV06,
+        version: EntryPointVersion,
+        userOpHash: string,
+        gasLimit: bigint,
+        gasUsed: PhaseGasUsed
+    ): Promise<ValidationData | undefined> {
         setCurrentEntity(context, EntityType.SENDER);
 
         const sender = context.sender;
 
-        // Encode validateUserOp selector + userOp hash + missingAccountFunds
-        // validateUserOp(PackedUserOperation calldata userOp, bytes32 userOpHash, uint256 missingAccountFunds)
-        // Selector: 0x19822f7c
-        const selector = '19822f7c';
-        const mockUserOpHash = '00'.repeat(32);
-        const mockMissingFunds = '00'.repeat(32);
-
-        const callData = hexToBytes(`0x${selector}${mockUserOpHash}${mockMissingFunds}` as `0x${string}`);
+        // v0.7: validateUserOp(PackedUserOperation calldata userOp, bytes32 userOpHash, uint256 missingAccountFunds)
+        // Selector: 0x19822f7c (v0.6 UserOperation: 0x3a871cdd)
+        const encoded = version === EntryPointVersion.V06
+            ? encodeValidateUserOpV06(userOp as UserOperationV06, userOpHash)
+            : encodeValidateUserOp(userOp as PackedUserOperation, userOpHash);
+        const callData = hexToBytes(encoded as `0x${string}`);
 
-        await vm.evm.runCall({
+        const result = await vm.evm.runCall({
             to: sender,
-            caller: this.entryPointAddress,
+            caller: context.entryPoint,
             data: callData,
-            gasLimit: BigInt(1000000),
+            gasLimit,
         });
+        gasUsed.account = result.execResult.executionGasUsed;
+
+        const { exceptionError, returnValue } = result.execResult;
+        if (exceptionError) {
+            throw new Error(`AA23 reverted: ${exceptionError.error} ${bytesToHex(returnValue)}`);
+        }
+        // Nothing to decode when there is no account code (e.g. not yet deployed)
+        if (returnValue.length === 0) {
+            return undefined;
+        }
+
+        // Return types are the same for v0.6 and v0.7
+        const [validationData] = ACCOUNT_INTERFACE.decodeFunctionResult('validateUserOp', returnValue);
+        return parseValidationData(validationData);
     }
 
     /**
@@ -241,38 +919,101 @@ export class SimulationEnvironment {
     private async simulatePaymasterValidation(
         vm: VM,
         context: ValidationContext,
-
-    ): Promise<void> {
+        userOp: PackedUserOperation | UserOperationV06,
+        version: EntryPointVersion,
+        userOpHash: string,
+        gasLimit: bigint,
+        gasUsed: PhaseGasUsed
+    ): Promise<ValidationData | undefined> {
         setCurrentEntity(context, EntityType.PAYMASTER);
 
         const paymaster = context.paymaster!;
 
-        // paymasterAndData = paymaster (20 bytes) + verificationGasLimit (16 bytes) + postOpGasLimit (16 bytes) + data
+        // v0.7: validatePaymasterUserOp(PackedUserOperation calldata userOp, bytes32 userOpHash, uint256 maxCost)
+        // Selector: 0x52b7512c (v0.6 UserOperation: 0xf465c77e)
+        const encoded = version === EntryPointVersion.V06
+            ? encodeValidatePaymasterUserOpV06(userOp as UserOperationV06, userOpHash)
+            : encodeValidatePaymasterUserOp(userOp as PackedUserOperation, userOpHash);
+        const callData = hexToBytes(encoded as `0x${string}`);
 
+        const result = await vm.evm.runCall({
+            to: paymaster,
+            caller: context.entryPoint,
+            data: callData,
+            gasLimit,
+        });
+        gasUsed.paymaster = result.execResult.executionGasUsed;
 
-        // Encode validatePaymasterUserOp selector
-        // validatePaymasterUserOp(PackedUserOperation calldata userOp, bytes32 userOpHash, uint256 maxCost)
-        // Selector: 0x52b7512c
-        const selector = '52b7512c';
-        const mockUserOpHash = '00'.repeat(32);
-        const mockMaxCost = '00'.repeat(32);
+        const { exceptionError, returnValue } = result.execResult;
+        if (exceptionError) {
+            throw new Error(`AA33 reverted: ${exceptionError.error} ${bytesToHex(returnValue)}`);
+        }
+        if (returnValue.length === 0) {
+            return undefined;
+        }
 
-        const callData = hexToBytes(`0x${selector}${mockUserOpHash}${mockMaxCost}` as `0x${string}`);
+        // Returns (bytes context, uint256 validationData)
+        const [paymasterContext, validationData] =
+            PAYMASTER_INTERFACE.decodeFunctionResult('validatePaymasterUserOp', returnValue);
+        this.checkPaymasterContext(context, paymasterContext);
+        return parseValidationData(validationData);
+    }
 
-        await vm.evm.runCall({
-            to: paymaster,
-            caller: this.entryPointAddress,
-            data: callData,
-            gasLimit: BigInt(1000000),
+    /**
+     * Records a violation when an unstaked paymaster returns a context [EREP-050]
+     */
+    private checkPaymasterContext(context: ValidationContext, paymasterContext: string): void {
+        if (paymasterContext === '0x' || context.stakedEntities.has(EntityType.PAYMASTER)) {
+            return;
+        }
+        context.violations.push({
+            type: 'ENTITY_RESTRICTION',
+            rule: 'EREP-050',
+            severity: 'warning',
+            entity: EntityType.PAYMASTER,
+            message: `Unstaked paymaster ${context.paymaster} returned a context, ` +
+                'which is only allowed for staked paymasters (EREP-050); staking the paymaster would allow it',
+            address: context.paymaster?.toString(),
         });
     }
 
+    /**
+     * Returns the stake of an entity: configured stakes first, then the EntryPoint deposit info
+     * (over RPC when forking, otherwise from the VM state).
+     * @param address The entity address
+     * @param entryPoint The EntryPoint holding the stake (defaults to the environment's EntryPoint)
+     */
+    async getStakeInfo(address: Address, entryPoint?: Address): Promise<EntityStake & { staked?: boolean }> {
+        const configured = this.stakes.get(address.toString().toLowerCase());
+        if (configured) {
+            return configured;
+        }
+
+        const entryPointAddress = entryPoint ?? this.entryPointAddress;
+        if (this.provider) {
+            const data = STAKE_MANAGER_INTERFACE.encodeFunctionData('getDepositInfo', [address.toString()]);
+            const result = await this.provider.send('eth_call', [{ to: entryPointAddress.toString(), data }, 'latest']);
+            const [info] = STAKE_MANAGER_INTERFACE.decodeFunctionResult('getDepositInfo', result);
+            return { staked: info.staked, stake: info.stake, unstakeDelaySec: Number(info.unstakeDelaySec) };
+        }
+
+        return readStakeInfo(this.getVM(), entryPointAddress, address, getEntryPointVersion(entryPointAddress));
+    }
+
+    /**
+     * Whether an entity meets the configured minimum stake and unstake delay
+     */
+    private async isEntityStaked(address: Address, entryPoint: Address): Promise<boolean> {
+        const info = await this.getStakeInfo(address, entryPoint);
+        return isStaked(info, this.minStake, this.minUnstakeDelay);
+    }
+
     /**
      * Parses factory address from initCode
      * initCode = factory (20 bytes) + calldata
      */
     private parseFactory(initCode: string): Address | undefined {
-        if (!initCode || initCode === '0x' || initCode.length < 42) {
+        if (!initCode || initCode === '0x' || initCode.length < 42 || isEip7702InitCode(initCode)) {
             return undefined;
         }
         // First 20 bytes (40 hex chars + '0x' prefix)
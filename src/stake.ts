@@ -0,0 +1,102 @@
+import { Address, bigIntToBytes, bytesToBigInt, setLengthLeft } from '@ethereumjs/util';
+import { VM } from '@ethereumjs/vm';
+import { AbiCoder, Interface, keccak256 } from 'ethers';
+import { EntityStake, StakeInfo } from './types';
+import { EntryPointVersion } from './entrypoint';
+
+/**
+ * Default minimum stake (1 ETH) for an entity to count as staked
+ */
+export const DEFAULT_MIN_STAKE = BigInt('1000000000000000000');
+
+/**
+ * Default minimum unstake delay (1 day) for an entity to count as staked
+ */
+export const DEFAULT_MIN_UNSTAKE_DELAY = 86400;
+
+/**
+ * Storage slot of `mapping(address => DepositInfo) deposits` in the EntryPoint StakeManager
+ */
+export const DEPOSITS_SLOT = BigInt(0);
+
+/**
+ * StakeManager view used to read stake info over RPC
+ */
+export const STAKE_MANAGER_INTERFACE = new Interface([
+    'function getDepositInfo(address account) view returns ' +
+    '(tuple(uint256 deposit, bool staked, uint112 stake, uint32 unstakeDelaySec, uint48 withdrawTime) info)',
+]);
+
+const UINT32_MASK = (1n << 32n) - 1n;
+const UINT48_MASK = (1n << 48n) - 1n;
+const UINT112_MASK = (1n << 112n) - 1n;
+
+/**
+ * Computes the base storage slot of `deposits[address]` in the EntryPoint
+ */
+export function getDepositInfoSlot(address: Address): bigint {
+    return BigInt(keccak256(
+        AbiCoder.defaultAbiCoder().encode(['address', 'uint256'], [address.toString(), DEPOSITS_SLOT])
+    ));
+}
+
+/**
+ * Decodes the two storage words holding a DepositInfo.
+ * v0.6 packs `uint112 deposit, bool staked, uint112 stake` into the first word,
+ * v0.7 and v0.8 keep a full uint256 deposit and pack the remaining fields into the second.
+ */
+export function decodeDepositInfo(version: EntryPointVersion, word0: bigint, word1: bigint): StakeInfo {
+    if (version === EntryPointVersion.V06) {
+        return {
+            deposit: word0 & UINT112_MASK,
+            staked: ((word0 >> 112n) & 0xffn) !== 0n,
+            stake: (word0 >> 120n) & UINT112_MASK,
+            unstakeDelaySec: Number(word1 & UINT32_MASK),
+            withdrawTime: Number((word1 >> 32n) & UINT48_MASK),
+        };
+    }
+    return {
+        deposit: word0,
+        staked: (word1 & 0xffn) !== 0n,
+        stake: (word1 >> 8n) & UINT112_MASK,
+        unstakeDelaySec: Number((word1 >> 120n) & UINT32_MASK),
+        withdrawTime: Number((word1 >> 152n) & UINT48_MASK),
+    };
+}
+
+/**
+ * Reads the DepositInfo of an address from the EntryPoint storage in the VM
+ * @param vm The VM holding the EntryPoint state
+ * @param entryPoint The EntryPoint address
+ * @param address The entity to look up
+ * @param version The EntryPoint version (determines the storage layout)
+ */
+export async function readStakeInfo(
+    vm: VM,
+    entryPoint: Address,
+    address: Address,
+    version: EntryPointVersion
+): Promise<StakeInfo> {
+    const base = getDepositInfoSlot(address);
+    const readWord = async (slot: bigint) => {
+        const value = await vm.stateManager.getStorage(entryPoint, setLengthLeft(bigIntToBytes(slot), 32));
+        return value.length === 0 ? BigInt(0) : bytesToBigInt(value);
+    };
+    return decodeDepositInfo(version, await readWord(base), await readWord(base + BigInt(1)));
+}
+
+/**
+ * Whether a stake satisfies the minimum stake and unstake delay.
+ * A stake that is being withdrawn (`staked: false`) never counts.
+ */
+export function isStaked(
+    info: EntityStake & { staked?: boolean },
+    minStake: bigint = DEFAULT_MIN_STAKE,
+    minUnstakeDelay: number = DEFAULT_MIN_UNSTAKE_DELAY
+): boolean {
+    if (info.staked === false) {
+        return false;
+    }
+    return info.stake >= minStake && info.unstakeDelaySec >= minUnstakeDelay;
+}
+
@@ -1,20 +1,282 @@
-import { PackedUserOperation, ValidationResult } from './types';
+import {
+    PackedUserOperation,
+    UnpackedUserOperation,
+    UserOperationV06,
+    Eip7702Authorization,
+    ValidationResult
+} from './types';
 import { createAddressFromString } from '@ethereumjs/util';
-import { calcPreVerificationGas } from './gas';
+import { calcPreVerificationGas, checkMaxVerificationGas } from './gas';
+import { isUnpackedUserOp, packUserOp } from './userop-packing';
+import { EntryPointVersion } from './entrypoint';
+import { isEip7702InitCode } from './eip7702';
+
+const UINT128_MAX = (1n << 128n) - 1n;
+const UINT64_MAX = (1n << 64n) - 1n;
+// secp256k1 curve order / 2: larger s values are malleable and rejected (EIP-2)
+const SECP256K1N_HALF = 0x7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0n;
 
 /**
  * Validates the structure and basic types of a UserOperation.
+ * For v0.7 both the packed and the unpacked (RPC) form are accepted, detected automatically.
  * This does NOT simulate execution.
- * @param userOp The PackedUserOperation to validate
+ * @param userOp The UserOperation to validate
+ * @param entryPointVersion The EntryPoint version the operation targets (default v0.7)
+ * @param maxVerificationGas Largest accepted validation gas limit (no limit if omitted)
  */
-export function validateUserOpStructure(userOp: unknown): ValidationResult {
-    const errors: string[] = [];
-
+export function validateUserOpStructure(
+    userOp: unknown,
+    entryPointVersion: EntryPointVersion = EntryPointVersion.V07,
+    maxVerificationGas?: bigint
+): ValidationResult {
     // Check if object exists
     if (!userOp || typeof userOp !== 'object') {
         return { isValid: false, errors: ['UserOperation must be a non-null object'] };
     }
 
+    if (entryPointVersion === EntryPointVersion.V06) {
+        return validateUserOpV06Structure(userOp, maxVerificationGas);
+    }
+    if (isUnpackedUserOp(userOp)) {
+        return validateUnpackedUserOpStructure(userOp, entryPointVersion, maxVerificationGas);
+    }
+    return validatePackedUserOpStructure(userOp, entryPointVersion, maxVerificationGas);
+}
+
+/**
+ * Validates the shape of an EIP-7702 authorization tuple.
+ * The signature is only checked for shape here; the simulation recovers the authority.
+ * @param auth The authorization to validate
+ * @param chainId If given, the authorization must be for this chain (or for any chain, 0)
+ */
+export function validateEip7702Authorization(auth: unknown, chainId?: bigint): string[] {
+    const errors: string[] = [];
+
+    if (!auth || typeof auth !== 'object') {
+        return ['eip7702Auth must be an object'];
+    }
+
+    const requiredKeys: (keyof Eip7702Authorization)[] = ['chainId', 'address', 'nonce', 'yParity', 'r', 's'];
+    for (const key of requiredKeys) {
+        if (!(key in auth)) {
+            errors.push(`Missing field: eip7702Auth.${key}`);
+        }
+    }
+    if (errors.length > 0) {
+        return errors;
+    }
+
+    const a = auth as Eip7702Authorization;
+
+    if (!isValidAddress(a.address)) {
+        errors.push(`Invalid eip7702Auth.address format: ${a.address}`);
+    }
+
+    if (!isValidBigIntOrHex(a.chainId, true)) {
+        errors.push(`Invalid eip7702Auth.chainId format: ${a.chainId}`);
+    } else if (chainId !== undefined && BigInt(a.chainId) !== 0n && BigInt(a.chainId) !== chainId) {
+        errors.push(`eip7702Auth.chainId ${BigInt(a.chainId)} does not match chain ${chainId}`);
+    }
+
+    if (!isValidBigIntOrHex(a.nonce, true) || BigInt(a.nonce) > UINT64_MAX) {
+        errors.push(`Invalid eip7702Auth.nonce format: ${a.nonce}`);
+    }
+
+    if (!isValidBigIntOrHex(a.yParity, true) || BigInt(a.yParity) > 1n) {
+        errors.push(`Invalid eip7702Auth.yParity: ${a.yParity} (must be 0 or 1)`);
+    }
+
+    for (const field of ['r', 's'] as const) {
+        const value = a[field];
+        if (!isValidBigIntOrHex(value, true) || value.length > 66 || BigInt(value) === 0n) {
+            errors.push(`Invalid eip7702Auth.${field}: ${value}`);
+        }
+    }
+    if (errors.length === 0 && BigInt(a.s) > SECP256K1N_HALF) {
+        errors.push(`Invalid eip7702Auth.s: ${a.s} (high s value)`);
+    }
+
+    return errors;
+}
+
+/**
+ * Validates an unpacked (RPC-form) UserOperation, then runs the packed checks on its packed form
+ */
+function validateUnpackedUserOpStructure(
+    userOp: object,
+    entryPointVersion: EntryPointVersion,
+    maxVerificationGas: bigint | undefined
+): ValidationResult {
+    const errors: string[] = [];
+
+    const requiredKeys: (keyof UnpackedUserOperation)[] = [
+        'sender',
+        'nonce',
+        'callData',
+        'callGasLimit',
+        'verificationGasLimit',
+        'preVerificationGas',
+        'maxFeePerGas',
+        'maxPriorityFeePerGas',
+        'signature',
+    ];
+
+    for (const key of requiredKeys) {
+        if (!(key in userOp)) {
+            errors.push(`Missing field: ${key}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        return { isValid: false, errors };
+    }
+
+    const op = userOp as UnpackedUserOperation;
+
+    // Optional entity addresses
+    for (const field of ['factory', 'paymaster'] as const) {
+        if (op[field] !== undefined && op[field] !== null && !isValidAddress(op[field] as string)) {
+            errors.push(`Invalid ${field} address format: ${op[field]}`);
+        }
+    }
+    if (op.factoryData && op.factoryData !== '0x' && !op.factory) {
+        errors.push('factoryData set without factory');
+    }
+    if (op.paymasterData && op.paymasterData !== '0x' && !op.paymaster) {
+        errors.push('paymasterData set without paymaster');
+    }
+    if (op.paymaster && (op.paymasterVerificationGasLimit == null || op.paymasterPostOpGasLimit == null)) {
+        errors.push('paymasterVerificationGasLimit and paymasterPostOpGasLimit are required with a paymaster');
+    }
+
+    // Hex byte fields; JSON-RPC clients send null for the unused optional ones
+    for (const field of ['callData', 'signature', 'factoryData', 'paymasterData'] as const) {
+        const value = op[field];
+        if (value == null && (field === 'factoryData' || field === 'paymasterData')) continue;
+        if (typeof value !== 'string' || !isValidHexString(value)) {
+            errors.push(`Invalid hex string for field ${field}: ${value}`);
+        }
+    }
+
+    // Gas values are packed into uint128 slots
+    const uint128Fields: (keyof UnpackedUserOperation)[] = [
+        'callGasLimit',
+        'verificationGasLimit',
+        'maxFeePerGas',
+        'maxPriorityFeePerGas',
+        'paymasterVerificationGasLimit',
+        'paymasterPostOpGasLimit',
+    ];
+    for (const field of uint128Fields) {
+        const value = op[field];
+        if (value == null && field.startsWith('paymaster')) continue;
+        if (!isValidBigIntOrHex(value, true) || BigInt(value as string | bigint) > UINT128_MAX) {
+            errors.push(`Invalid ${field} format: ${value}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        return { isValid: false, errors };
+    }
+
+    return validatePackedUserOpStructure(packUserOp(op), entryPointVersion, maxVerificationGas);
+}
+
+/**
+ * Validates a legacy UserOperation targeting EntryPoint v0.6
+ */
+function validateUserOpV06Structure(userOp: object, maxVerificationGas: bigint | undefined): ValidationResult {
+    const errors: string[] = [];
+
+    const requiredKeys: (keyof UserOperationV06)[] = [
+        'sender',
+        'nonce',
+        'initCode',
+        'callData',
+        'callGasLimit',
+        'verificationGasLimit',
+        'preVerificationGas',
+        'maxFeePerGas',
+        'maxPriorityFeePerGas',
+        'paymasterAndData',
+        'signature',
+    ];
+
+    for (const key of requiredKeys) {
+        if (!(key in userOp)) {
+            errors.push(`Missing field: ${key}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        return { isValid: false, errors };
+    }
+
+    const op = userOp as UserOperationV06;
+
+    if (!isValidAddress(op.sender)) {
+        errors.push(`Invalid sender address format: ${op.sender}`);
+    }
+
+    const hexFields: (keyof UserOperationV06)[] = ['initCode', 'callData', 'paymasterAndData', 'signature'];
+    for (const field of hexFields) {
+        const value = op[field];
+        if (typeof value !== 'string' || !isValidHexString(value)) {
+            errors.push(`Invalid hex string for field ${field}: ${value}`);
+        }
+    }
+
+    const numericFields: (keyof UserOperationV06)[] = [
+        'nonce',
+        'callGasLimit',
+        'verificationGasLimit',
+        'preVerificationGas',
+        'maxFeePerGas',
+        'maxPriorityFeePerGas',
+    ];
+    for (const field of numericFields) {
+        if (!isValidBigIntOrHex(op[field], true)) {
+            errors.push(`Invalid ${field} format: ${op[field]}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        return { isValid: false, errors };
+    }
+
+    // initCode and paymasterAndData start with an address when set
+    if (op.initCode !== '0x' && op.initCode.length < 42) {
+        errors.push(`initCode too short to contain a factory address: ${op.initCode}`);
+    }
+    if (op.paymasterAndData !== '0x' && op.paymasterAndData.length < 42) {
+        errors.push(`paymasterAndData too short to contain a paymaster address: ${op.paymasterAndData}`);
+    }
+
+    const pvg = BigInt(op.preVerificationGas);
+    const calculatedPvg = calcPreVerificationGas(op);
+    if (pvg < calculatedPvg) {
+        errors.push(`preVerificationGas too low: expected at least ${calculatedPvg}, got ${pvg}`);
+    }
+    if (maxVerificationGas !== undefined) {
+        errors.push(...checkMaxVerificationGas(op, maxVerificationGas));
+    }
+
+    return {
+        isValid: errors.length === 0,
+        errors,
+    };
+}
+
+/**
+ * Validates a UserOperation in the packed (on-chain struct) form
+ */
+function validatePackedUserOpStructure(
+    userOp: object,
+    entryPointVersion: EntryPointVersion,
+    maxVerificationGas: bigint | undefined
+): ValidationResult {
+    const errors: string[] = [];
+
     // Required keys for PackedUserOperation
     const requiredKeys: (keyof PackedUserOperation)[] = [
         'sender',
@@ -76,8 +338,19 @@ export function validateUserOpStructure(userOp: unknown): ValidationResult {
         return { isValid: false, errors };
     }
 
-    // 5. Gas Limit Validation
-    const gasLimitErrors = validateGasLimits(op);
+    // 5. EIP-7702 Validation
+    if (isEip7702InitCode(op.initCode) && entryPointVersion !== EntryPointVersion.V08) {
+        errors.push(`EIP-7702 initCode marker requires EntryPoint v0.8 (target: v${entryPointVersion})`);
+    }
+    if (op.eip7702Auth !== undefined) {
+        errors.push(...validateEip7702Authorization(op.eip7702Auth));
+        if (op.initCode !== '0x' && !isEip7702InitCode(op.initCode)) {
+            errors.push('eip7702Auth cannot be combined with a factory initCode');
+        }
+    }
+
+    // 6. Gas Limit Validation
+    const gasLimitErrors = validateGasLimits(op, maxVerificationGas);
     errors.push(...gasLimitErrors);
 
     return {
@@ -87,21 +360,16 @@ export function validateUserOpStructure(userOp: unknown): ValidationResult {
 }
 
 // Imported calcPreVerificationGas at top
-function validateGasLimits(op: PackedUserOperation): string[] {
+function validateGasLimits(op: PackedUserOperation, maxVerificationGas: bigint | undefined): string[] {
     const errors: string[] = [];
 
     // unpack accountGasLimits
     // verificationGasLimit (16 bytes) | callGasLimit (16 bytes)
     if (!isValidPackedUints(op.accountGasLimits)) {
         errors.push(`Invalid accountGasLimits format: ${op.accountGasLimits}`);
-    } else {
-        // Check verificationGasLimit > 0
-        const vgl = BigInt('0x' + op.accountGasLimits.slice(2, 34));
-        // const cgl = BigInt('0x' + op.accountGasLimits.slice(34)); // unused
-
-        if (vgl < 10000n) { // Minimum reasonable limit
-            // errors.push(`verificationGasLimit too low: ${vgl}`); // Optional warning
-        }
+    } else if (maxVerificationGas !== undefined) {
+        // Bound the simulation work the operation can ask for
+        errors.push(...checkMaxVerificationGas(op, maxVerificationGas));
     }
 
     // unpack gasFees
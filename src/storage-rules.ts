@@ -1,48 +1,74 @@
-import { Address } from '@ethereumjs/util';
-// import { keccak256 } from 'ethereum-cryptography/keccak';
-import { EntityType } from './types';
+import { Address, bytesToBigInt } from '@ethereumjs/util';
+import { EntityType, ValidationRuleId, ViolationSeverity } from './types';
+
+/**
+ * Largest offset from a mapping slot still considered associated (covers struct members)
+ */
+export const MAX_ASSOCIATED_SLOT_OFFSET = BigInt(128);
+
+/**
+ * Slots derived from each address through KECCAK256, keyed by lowercase address.
+ * Filled by the execution listener when a hashed preimage starts with an entity address.
+ */
+export type AssociatedSlots = Map<string, bigint[]>;
+
+/**
+ * Records that `keccak256(address || ...)` produced `slot`
+ */
+export function recordAssociatedSlot(associatedSlots: AssociatedSlots, address: Address, slot: bigint): void {
+    const key = address.toString().toLowerCase();
+    const slots = associatedSlots.get(key);
+    if (!slots) {
+        associatedSlots.set(key, [slot]);
+    } else if (!slots.includes(slot)) {
+        slots.push(slot);
+    }
+}
 
 /**
  * Checks if a storage slot is associated with an address.
  * EIP-7562 definition:
  * A slot is associated with an address if:
- * 1. slot == address (simple mapping) - Though this is rare in Solidity, usually it's a mapping.
- * 2. slot == keccak256(address || key) where key is a storage slot (mapping pattern).
- * 
- * We check standard Solidity mapping patterns: 
- * keccak256(h(k) . p)
- * where k is the key (address), and p is the position (slot index).
+ * 1. slot == address
+ * 2. slot == keccak256(address || x) + n, where n is in the range 0..128
+ *
+ * Case 2 covers `mapping(address => ...)` values and the members of structs stored in them.
+ * Hashes cannot be reversed, so the keccak results must have been recorded during execution.
+ *
+ * @param slot The accessed slot (hex)
+ * @param address The address to check association with
+ * @param associatedSlots Slots recorded during execution
+ */
+export function isSlotAssociatedWith(slot: string, address: Address, associatedSlots?: AssociatedSlots): boolean {
+    const slotValue = BigInt(slot);
+    if (slotValue === bytesToBigInt(address.toBytes())) {
+        return true;
+    }
+
+    const bases = associatedSlots?.get(address.toString().toLowerCase()) ?? [];
+    return bases.some(base => slotValue >= base && slotValue - base <= MAX_ASSOCIATED_SLOT_OFFSET);
+}
+
+/**
+ * Execution details of a storage access that the rules depend on
+ */
+export interface StorageAccessInfo {
+    /** Slots derived from entity addresses during execution */
+    associatedSlots?: AssociatedSlots;
+    /** Entities holding a sufficient stake in the EntryPoint */
+    stakedEntities?: ReadonlySet<EntityType>;
+    /** Whether the access is a write (SSTORE) rather than a read (SLOAD) */
+    isWrite?: boolean;
+}
+
+/**
+ * Outcome of the storage rules; rejected accesses name the rule they break
  */
-export function isSlotAssociatedWith(_slot: string, _address: Address): boolean {
-    void _slot;
-    void _address;
-    // const slotBuffer = Buffer.from(slot.replace('0x', ''), 'hex');
-    // const addressBuffer = address.toBytes();
-
-    // We can't easily reverse the hash, but we can check common patterns if we knew the layout.
-    // EIP-7562 says: "Read/Write Access to storage slots that are associated with the entity"
-    // The canonical definition usually implies `mapping(address => value)`.
-    // The slot would be `keccak256(pad(address) . pad(position))`.
-
-    // Since we don't know the position 'p' efficiently without iterating, 
-    // strict enforcement requires capturing the specific patterns or relying on the entity 
-    // only accessing its own data.
-
-    // For this implementation, we will be strict:
-    // 1. Direct match (unlikely for Solidity but possible in assembly)
-    // 2. We can't exhaustively check all map positions. 
-    // However, the rule simplifies often to: "Account storage is always allowed".
-
-    // IMPORTANT: For external contracts (Associated Storage), the rule is:
-    // "Access to associated storage of the account in an external (non-entity) contract is allowed"
-
-    // We'll implement a basic heuristic checker or leave it as "Strict Own Storage Only" for now
-    // unless we can prove association.
-
-    return false;
-    // TODO: Implement advanced mapping detection if needed.
-    // Realistically, without the contract ABI or source, proving association is hard.
-    // Most validators assume if it touches external storage, it MUST be standard mapping.
+export interface StorageRuleResult {
+    allowed: boolean;
+    reason?: string;
+    rule?: ValidationRuleId;
+    severity?: ViolationSeverity;
 }
 
 /**
@@ -54,49 +80,99 @@ export function validateStorageRules(
     storageAddress: Address, // The contract being accessed
     slot: string,            // The slot being accessed
     factory?: Address,
-    paymaster?: Address
-): { allowed: boolean; reason?: string } {
-
-    // [STO-010] Access to the "account" (Sender) storage is always allowed.
-    // Note: This applies to ANY entity accessing Sender's storage? 
-    // No, the rule says "Access to the 'account' storage is always allowed" in the context of the Sender's validation?
-    // Actually, EIP-7562 says specific rules per entity.
-
-    // Let's break it down by executing entity:
+    paymaster?: Address,
+    access: StorageAccessInfo = {}
+): StorageRuleResult {
+    const { associatedSlots, stakedEntities, isWrite = false } = access;
 
     if (entity === EntityType.ENTRYPOINT) {
         return { allowed: true };
     }
 
-    // 1. Entity accessing its own storage is always allowed ([STO-031] is for staked, but generally true for base too)
     let entityAddress: Address | undefined;
     if (entity === EntityType.SENDER) entityAddress = sender;
     else if (entity === EntityType.FACTORY) entityAddress = factory;
     else if (entity === EntityType.PAYMASTER) entityAddress = paymaster;
 
-    if (entityAddress && storageAddress.equals(entityAddress)) {
+    const staked = stakedEntities?.has(entity) ?? false;
+    const target = storageAddress.toString();
+
+    // [STO-010] Access to the account's own storage is always allowed
+    if (entity === EntityType.SENDER && storageAddress.equals(sender)) {
         return { allowed: true };
     }
 
-    // 2. Access to EntryPoint is allowed (specifically deposit info, but we allow all for simplicity or check slot)
-    // In reality, we should restrict to specific slots, but standard implementations often allow read access.
-    // EIP-7562: "Read/Write Access to storage slots that are associated with the entity, in any non-entity contract"
-    // EntryPoint is a "non-entity" contract in this context? 
-    // Actually usually EntryPoint is a special case.
-
-    // For this roadmap, we'll assume we can't easily detect "Associated Storage" in 3rd party contracts
-    // without more complex logic.
+    // Special Rule: Factory deploying the account can access Sender's storage
+    if (entity === EntityType.FACTORY && storageAddress.equals(sender)) {
+        return { allowed: true };
+    }
 
-    // Special Rule: Factory deploying the account
-    if (entity === EntityType.FACTORY) {
-        // [STO-022] Factory can access Sender's storage (deployment)
-        if (storageAddress.equals(sender)) {
+    // [STO-031] Factory and paymaster may only access their own storage when staked
+    if (entityAddress && storageAddress.equals(entityAddress)) {
+        if (staked) {
             return { allowed: true };
         }
+        return {
+            allowed: false,
+            reason: `Entity ${entity} accessed its own storage at ${target}, ` +
+                `which is only allowed for staked entities (STO-031); staking the ${entity} would allow it`,
+            rule: 'STO-031',
+            severity: 'warning'
+        };
+    }
+
+    const isEntityContract = [sender, factory, paymaster].some(a => a && storageAddress.equals(a));
+    if (!isEntityContract) {
+        // Associated storage of the account in a non-entity contract (e.g. `balances[sender]` in a token)
+        if (isSlotAssociatedWith(slot, sender, associatedSlots)) {
+            // [STO-021] Allowed once the account exists.
+            // [STO-022] While the account is being created, only a staked factory may rely on it.
+            if (!factory || stakedEntities?.has(EntityType.FACTORY)) {
+                return { allowed: true };
+            }
+            return {
+                allowed: false,
+                reason: `Entity ${entity} accessed storage of ${target} associated with ` +
+                    `sender ${sender.toString()} during account creation, which requires a staked factory (STO-022)`,
+                rule: 'STO-022',
+                severity: 'warning'
+            };
+        }
+
+        // [STO-032] Staked entities may access storage associated with themselves
+        if (entityAddress && entity !== EntityType.SENDER && isSlotAssociatedWith(slot, entityAddress, associatedSlots)) {
+            if (staked) {
+                return { allowed: true };
+            }
+            return {
+                allowed: false,
+                reason: `Entity ${entity} accessed storage of ${target} associated with itself, ` +
+                    `which is only allowed for staked entities (STO-032); staking the ${entity} would allow it`,
+                rule: 'STO-032',
+                severity: 'warning'
+            };
+        }
+
+        // [STO-033] Staked entities may read any non-entity contract
+        if (!isWrite) {
+            if (staked) {
+                return { allowed: true };
+            }
+            return {
+                allowed: false,
+                reason: `Entity ${entity} is not allowed to read storage of ${target}; ` +
+                    `read-only access is allowed for staked entities (STO-033)`,
+                rule: 'STO-033',
+                severity: 'warning'
+            };
+        }
     }
 
+    // Other entities' storage is theirs alone [STO-031]; non-entity contracts are read-only [STO-033]
     return {
         allowed: false,
-        reason: `Entity ${entity} is not allowed to access storage of ${storageAddress.toString()}`
+        reason: `Entity ${entity} is not allowed to ${isWrite ? 'write' : 'access'} storage of ${target}`,
+        rule: isEntityContract ? 'STO-031' : 'STO-033',
+        severity: 'error'
     };
 }
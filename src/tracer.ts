@@ -0,0 +1,228 @@
+import { VM } from '@ethereumjs/vm';
+import { EVMResult, InterpreterStep, Message } from '@ethereumjs/evm';
+import { bigIntToBytes, bytesToHex, setLengthLeft } from '@ethereumjs/util';
+import { toQuantity } from 'ethers';
+import {
+    EntityType,
+    ExecutionTrace,
+    SimulationResult,
+    StorageAccess,
+    TraceCall,
+    TraceUserOperationOptions,
+    UserOperationTrace,
+    UserOperationTraceCall
+} from './types';
+import { ValidationContext } from './validator';
+
+/**
+ * Steps recorded by `traceExecution` and returned by `formatUserOperationTrace` unless `maxSteps` says otherwise
+ */
+export const DEFAULT_TRACE_STEP_LIMIT = 10000;
+
+// Opcodes that open a call frame, by name
+const FRAME_OPCODES = new Set(['CALL', 'CALLCODE', 'DELEGATECALL', 'STATICCALL', 'CREATE', 'CREATE2']);
+
+// Storage opcodes: whether they write, and whether they access transient storage
+const STORAGE_OPCODES: Record<number, { write: boolean; transient: boolean }> = {
+    0x54: { write: false, transient: false }, // SLOAD
+    0x55: { write: true, transient: false },  // SSTORE
+    0x5c: { write: false, transient: true },  // TLOAD
+    0x5d: { write: true, transient: true },   // TSTORE
+};
+
+const toWord = (value: bigint): string => bytesToHex(setLengthLeft(bigIntToBytes(value), 32));
+
+// An open call frame, with what the tracer needs of its steps
+interface OpenFrame {
+    call: TraceCall;
+    /** Entity of the frame's first step */
+    entity?: EntityType;
+    /** Opcode of the frame's latest step, which opens the next sub-call */
+    lastOpcode?: string;
+}
+
+/**
+ * Records steps, call frames and storage accesses while attached.
+ * Steps and frames are attributed to the entity in `context` when they run.
+ * Steps are recorded up to `options.maxSteps` (only those of `options.entity`, if set); later ones are
+ * only counted in `opcodes`, and `truncated` is set.
+ * @returns The trace being filled and a function that detaches the tracer
+ */
+export function traceExecution(
+    vm: VM,
+    context: ValidationContext,
+    options: TraceUserOperationOptions = {}
+): { trace: ExecutionTrace; stop: () => void } {
+    const maxSteps = options.maxSteps ?? DEFAULT_TRACE_STEP_LIMIT;
+    const trace: ExecutionTrace = { steps: [], truncated: false, opcodes: {}, calls: [], storage: [] };
+    const frames: OpenFrame[] = [];
+    // A read's value is on the stack once the opcode has run, i.e. at the next step of the frame
+    let pendingRead: { access: StorageAccess; depth: number } | undefined;
+
+    const stepListener = async (data: InterpreterStep, next?: (error?: unknown) => void) => {
+        if (pendingRead) {
+            if (pendingRead.depth === data.depth) {
+                pendingRead.access.value = toWord(data.stack[data.stack.length - 1]);
+            }
+            pendingRead = undefined;
+        }
+
+        const frame = frames[frames.length - 1];
+        if (frame) {
+            frame.entity ??= context.entity;
+            frame.lastOpcode = data.opcode.name;
+        }
+
+        const counts = (trace.opcodes[context.entity] ??= {});
+        counts[data.opcode.name] = (counts[data.opcode.name] ?? 0) + 1;
+
+        if (!options.entity || options.entity === context.entity) {
+            if (trace.steps.length < maxSteps) {
+                trace.steps.push({
+                    pc: data.pc,
+                    opcode: data.opcode.name,
+                    gasCost: data.opcode.fee + Number(data.opcode.dynamicFee ?? BigInt(0)),
+                    depth: data.depth,
+                    entity: context.entity,
+                    address: data.address.toString(),
+                });
+            } else {
+                trace.truncated = true;
+            }
+        }
+
+        const storageOp = STORAGE_OPCODES[data.opcode.code];
+        if (storageOp && data.stack.length >= (storageOp.write ? 2 : 1)) {
+            const access: StorageAccess = {
+                entity: context.entity,
+                address: data.address.toString(),
+                slot: toWord(data.stack[data.stack.length - 1]),
+                value: storageOp.write ? toWord(data.stack[data.stack.length - 2]) : '0x',
+                write: storageOp.write,
+                transient: storageOp.transient,
+                pc: data.pc,
+            };
+            trace.storage.push(access);
+            if (!storageOp.write) {
+                pendingRead = { access, depth: data.depth };
+            }
+        }
+
+        if (next) next();
+    };
+
+    const beforeMessage = async (message: Message, next?: (error?: unknown) => void) => {
+        const parent = frames[frames.length - 1];
+        const callOpcode = parent?.lastOpcode;
+
+        const call: TraceCall = {
+            type: callOpcode && FRAME_OPCODES.has(callOpcode) ? callOpcode : (message.to ? 'CALL' : 'CREATE'),
+            from: message.caller.toString(),
+            to: message.to?.toString() ?? '',
+            entity: context.entity,
+            depth: message.depth,
+            value: message.value,
+            input: bytesToHex(message.data),
+            output: '0x',
+            gasUsed: BigInt(0),
+            calls: [],
+        };
+        (parent ? parent.call.calls : trace.calls).push(call);
+        frames.push({ call });
+        if (next) next();
+    };
+
+    const afterMessage = async (result: EVMResult, next?: (error?: unknown) => void) => {
+        const frame = frames.pop();
+        if (frame) {
+            const { call } = frame;
+            // Entity listeners run before the first step, so that step has the frame's entity
+            call.entity = frame.entity ?? context.entity;
+            call.output = bytesToHex(result.execResult.returnValue);
+            call.gasUsed = result.execResult.executionGasUsed;
+            call.error = result.execResult.exceptionError?.error;
+            if (result.createdAddress) {
+                call.to = result.createdAddress.toString();
+            }
+        }
+        if (next) next();
+    };
+
+    vm.evm.events?.on('step', stepListener);
+    vm.evm.events?.on('beforeMessage', beforeMessage);
+    vm.evm.events?.on('afterMessage', afterMessage);
+
+    return {
+        trace,
+        stop: () => {
+            vm.evm.events?.removeListener('step', stepListener);
+            vm.evm.events?.removeListener('beforeMessage', beforeMessage);
+            vm.evm.events?.removeListener('afterMessage', afterMessage);
+        },
+    };
+}
+
+/**
+ * Turns a traced SimulationResult into the JSON-safe `debug_traceUserOperation` result.
+ * With `options.entity`, frames of other entities are left out (their sub-calls of that entity are kept).
+ */
+export function formatUserOperationTrace(
+    result: SimulationResult,
+    options: TraceUserOperationOptions = {}
+): UserOperationTrace {
+    const { entity } = options;
+    const maxSteps = options.maxSteps ?? DEFAULT_TRACE_STEP_LIMIT;
+    const trace = result.trace ?? { steps: [], truncated: false, opcodes: {}, calls: [], storage: [] };
+    const matches = (item: { entity: EntityType }) => !entity || item.entity === entity;
+
+    const formatCalls = (calls: TraceCall[]): UserOperationTraceCall[] => calls.flatMap(call => {
+        if (!matches(call)) {
+            return formatCalls(call.calls);
+        }
+        return [{
+            type: call.type,
+            from: call.from,
+            to: call.to,
+            entity: call.entity,
+            depth: call.depth,
+            value: toQuantity(call.value),
+            input: call.input,
+            output: call.output,
+            gasUsed: toQuantity(call.gasUsed),
+            ...(call.error !== undefined ? { error: call.error } : {}),
+            calls: formatCalls(call.calls),
+        }];
+    });
+
+    const storage: UserOperationTrace['storage'] = {};
+    for (const access of trace.storage.filter(matches)) {
+        (storage[access.entity] ??= []).push(access);
+    }
+
+    const opcodes: UserOperationTrace['opcodes'] = {};
+    for (const [name, counts] of Object.entries(trace.opcodes)) {
+        if (!entity || name === entity) {
+            opcodes[name as EntityType] = counts;
+        }
+    }
+    const steps = trace.steps.filter(matches);
+
+    const phaseGas = result.phaseGasUsed ?? {};
+    const gasUsed: UserOperationTrace['gasUsed'] = { total: toQuantity(result.gasUsed ?? BigInt(0)) };
+    for (const phase of ['factory', 'account', 'paymaster'] as const) {
+        const used = phaseGas[phase];
+        if (used !== undefined) gasUsed[phase] = toQuantity(used);
+    }
+
+    return {
+        isValid: result.isValid,
+        errors: result.errors,
+        violations: result.violations.filter(matches),
+        gasUsed,
+        calls: formatCalls(trace.calls),
+        storage,
+        opcodes,
+        steps: steps.slice(0, maxSteps),
+        truncated: trace.truncated || steps.length > maxSteps,
+    };
+}
@@ -1,8 +1,28 @@
+import type { ReputationEntry } from './reputation';
+
 /**
  * Represents a hexadecimal string starting with '0x'
  */
 export type HexString = string;
 
+/**
+ * EIP-7702 authorization tuple, as sent alongside a UserOperation in the RPC form
+ */
+export interface Eip7702Authorization {
+  /** Chain the authorization is valid on (0 for any chain) */
+  chainId: bigint | HexString;
+  /** Delegate contract whose code the sender runs */
+  address: HexString;
+  /** Nonce of the authorizing account (the sender) */
+  nonce: bigint | HexString;
+  /** Signature y parity (0 or 1) */
+  yParity: bigint | HexString;
+  /** Signature r value */
+  r: HexString;
+  /** Signature s value */
+  s: HexString;
+}
+
 /**
  * ERC-4337 UserOperation (v0.7 PackedUserOperation)
  * Based on https://eips.ethereum.org/EIPS/eip-4337
@@ -57,6 +77,157 @@ export interface PackedUserOperation {
    * Signature of the operation
    */
   signature: HexString;
+
+  /**
+   * EIP-7702 authorization delegating the sender (v0.8, optional)
+   */
+  eip7702Auth?: Eip7702Authorization;
+}
+
+/**
+ * Legacy ERC-4337 UserOperation used by EntryPoint v0.6
+ */
+export interface UserOperationV06 {
+  /**
+   * The account making the operation
+   */
+  sender: HexString;
+
+  /**
+   * The nonce of the account.
+   */
+  nonce: bigint | HexString;
+
+  /**
+   * The initCode of the account: factory (20 bytes) + factory calldata
+   */
+  initCode: HexString;
+
+  /**
+   * The data to execute
+   */
+  callData: HexString;
+
+  /**
+   * Gas limit of the execution phase
+   */
+  callGasLimit: bigint | HexString;
+
+  /**
+   * Gas limit of the validation phase (account and paymaster)
+   */
+  verificationGasLimit: bigint | HexString;
+
+  /**
+   * Extra gas paid to the bundler
+   */
+  preVerificationGas: bigint | HexString;
+
+  /**
+   * EIP-1559 max fee per gas
+   */
+  maxFeePerGas: bigint | HexString;
+
+  /**
+   * EIP-1559 max priority fee per gas
+   */
+  maxPriorityFeePerGas: bigint | HexString;
+
+  /**
+   * Paymaster and data: paymaster (20 bytes) + paymasterData (no packed gas limits)
+   */
+  paymasterAndData: HexString;
+
+  /**
+   * Signature of the operation
+   */
+  signature: HexString;
+}
+
+/**
+ * ERC-4337 v0.7 UserOperation in the unpacked JSON-RPC form sent by wallets and bundlers.
+ * Packs losslessly into a PackedUserOperation (see packUserOp / unpackUserOp).
+ */
+export interface UnpackedUserOperation {
+  /**
+   * The account making the operation
+   */
+  sender: HexString;
+
+  /**
+   * The nonce of the account.
+   */
+  nonce: bigint | HexString;
+
+  /**
+   * Factory deploying the account (omitted if the account exists)
+   */
+  factory?: HexString;
+
+  /**
+   * Calldata for the factory
+   */
+  factoryData?: HexString;
+
+  /**
+   * The data to execute
+   */
+  callData: HexString;
+
+  /**
+   * Gas limit of the execution phase
+   */
+  callGasLimit: bigint | HexString;
+
+  /**
+   * Gas limit of the account validation (and deployment) phase
+   */
+  verificationGasLimit: bigint | HexString;
+
+  /**
+   * Extra gas paid to the bundler
+   */
+  preVerificationGas: bigint | HexString;
+
+  /**
+   * EIP-1559 max fee per gas
+   */
+  maxFeePerGas: bigint | HexString;
+
+  /**
+   * EIP-1559 max priority fee per gas
+   */
+  maxPriorityFeePerGas: bigint | HexString;
+
+  /**
+   * Paymaster sponsoring the operation (omitted if none)
+   */
+  paymaster?: HexString;
+
+  /**
+   * Gas limit of the paymaster validation phase
+   */
+  paymasterVerificationGasLimit?: bigint | HexString;
+
+  /**
+   * Gas limit of the paymaster postOp phase
+   */
+  paymasterPostOpGasLimit?: bigint | HexString;
+
+  /**
+   * Data for the paymaster
+   */
+  paymasterData?: HexString;
+
+  /**
+   * Signature of the operation
+   */
+  signature: HexString;
+
+  /**
+   * EIP-7702 authorization delegating the sender (v0.8, optional)
+   */
+  eip7702Auth?: Eip7702Authorization;
 }
 
 /**
@@ -79,6 +250,8 @@ export enum EntityType {
   PAYMASTER = 'PAYMASTER',
   /** EntryPoint contract */
   ENTRYPOINT = 'ENTRYPOINT',
+  /** Signature aggregator named in the account's validationData */
+  AGGREGATOR = 'AGGREGATOR',
 }
 
 /**
@@ -91,28 +264,143 @@ export interface SimulationResult {
   errors: string[];
   /** List of validation violations detected during execution */
   violations: ValidationViolation[];
-  /** Gas used during simulation */
+  /** Standardized error code when the failure cause is known */
+  errorCode?: ValidationErrorCode;
+  /** validationData returned by the account's validateUserOp */
+  senderValidationData?: ValidationData;
+  /** validationData returned by the paymaster's validatePaymasterUserOp */
+  paymasterValidationData?: ValidationData;
+  /** Total gas used by the validation phases */
   gasUsed?: bigint;
+  /** Gas used by each validation phase */
+  phaseGasUsed?: PhaseGasUsed;
+  /** Non-fatal findings, e.g. gas limits far above what validation used */
+  warnings?: string[];
+  /** Code hashes of the contracts each entity executed or accessed, by address */
+  accessedCode?: Partial<Record<EntityType, Record<HexString, HexString>>>;
+  /** Storage the entities read before it was written (EntryPoint frames excluded): contract → slot → value */
+  storageReads?: Record<HexString, Record<HexString, HexString>>;
   /** Execution trace (if enabled) */
   trace?: ExecutionTrace;
+  /** Entities rejected for being throttled or banned */
+  reputationRejections?: ReputationRejection[];
 }
 
+/**
+ * An entity of a UserOperation that is throttled or banned
+ */
+export interface ReputationRejection {
+  /** Role of the entity in the UserOperation */
+  entity: EntityType;
+  /** Entity address */
+  address: HexString;
+  /** The entity's reputation when it was checked */
+  entry: ReputationEntry;
+}
+
+/**
+ * Gas used by each validation phase
+ */
+export interface PhaseGasUsed {
+  /** Account creation: the factory call, or the EIP-7702 initialization */
+  factory?: bigint;
+  /** The account's validateUserOp */
+  account?: bigint;
+  /** The paymaster's validatePaymasterUserOp */
+  paymaster?: bigint;
+}
+
+/**
+ * Unpacked validationData returned by validateUserOp / validatePaymasterUserOp:
+ * aggregatorOrSigFail (20 bytes) | validUntil (6 bytes) | validAfter (6 bytes)
+ */
+export interface ValidationData {
+  /** Aggregator address (zero address if none, 0x...01 on signature failure) */
+  aggregator: HexString;
+  /** Whether the entity reported a signature failure */
+  sigFailed: boolean;
+  /** Timestamp (seconds) from which the operation is valid */
+  validAfter: number;
+  /** Timestamp (seconds) until which the operation is valid (0 in the packed form means no expiry) */
+  validUntil: number;
+}
+
+/**
+ * Stake an entity holds in the EntryPoint
+ */
+export interface EntityStake {
+  /** Staked amount (wei) */
+  stake: bigint;
+  /** Unstake delay (seconds) */
+  unstakeDelaySec: number;
+}
+
+/**
+ * DepositInfo of an address in the EntryPoint StakeManager
+ */
+export interface StakeInfo extends EntityStake {
+  /** Deposit available to pay for gas (wei) */
+  deposit: bigint;
+  /** Whether the stake is locked (false once unlockStake was called) */
+  staked: boolean;
+  /** Timestamp (seconds) from which the stake can be withdrawn (0 while locked) */
+  withdrawTime: number;
+}
+
+/**
+ * ERC-7562 rules the validator enforces
+ */
+export type ValidationRuleId =
+  | 'OP-011' // banned opcodes
+  | 'OP-012' // GAS only before a call
+  | 'OP-020' // out of gas
+  | 'OP-031' // CREATE/CREATE2 only by the factory
+  | 'OP-041' // access to addresses without code
+  | 'OP-054' // calls into the EntryPoint
+  | 'OP-061' // value transfers
+  | 'OP-062' // precompiles
+  | 'OP-080' // BALANCE/SELFBALANCE only when staked
+  | 'STO-022' // associated storage during account creation
+  | 'STO-031' // entity storage
+  | 'STO-032' // storage associated with a staked entity
+  | 'STO-033' // non-entity storage
+  | 'COD-010' // code changed between validation and revalidation
+  | 'EREP-050'; // paymaster context
+
+/**
+ * How a violation can be resolved:
+ * `error` - the operation breaks a rule that applies to every entity;
+ * `warning` - the access is allowed for staked entities, so staking the entity resolves it
+ */
+export type ViolationSeverity = 'error' | 'warning';
+
 /**
  * Represents a specific validation violation
  */
 export interface ValidationViolation {
   /** Type of violation */
-  type: 'BANNED_OPCODE' | 'ILLEGAL_STORAGE_ACCESS' | 'ENTITY_RESTRICTION';
+  type: 'BANNED_OPCODE' | 'ILLEGAL_STORAGE_ACCESS' | 'ENTITY_RESTRICTION' | 'ILLEGAL_ENTRYPOINT_CALL' | 'OUT_OF_GAS' |
+    'CODE_CHANGED';
+  /** ERC-7562 rule that was broken */
+  rule: ValidationRuleId;
+  /** Whether staking the entity would resolve the violation */
+  severity: ViolationSeverity;
   /** Which entity caused the violation */
   entity: EntityType;
   /** Detailed message */
   message: string;
   /** Program counter where violation occurred */
   pc?: number;
+  /** Call depth where the violation occurred */
+  depth?: number;
+  /** Contract whose code was executing */
+  address?: string;
   /** Storage address accessed (for storage violations) */
   storageAddress?: string;
   /** Storage slot accessed (for storage violations) */
   slot?: string;
+  /** Function selector called (for EntryPoint call violations) */
+  selector?: string;
 }
 
 /**
@@ -149,14 +437,130 @@ export interface TraceStep {
   gasCost: number;
   /** Call depth */
   depth: number;
+  /** Entity the step is attributed to */
+  entity: EntityType;
+  /** Address whose code is executing */
+  address: HexString;
+}
+
+/**
+ * Call frame in an execution trace, with the frames it opened
+ */
+export interface TraceCall {
+  /** CALL, CALLCODE, DELEGATECALL, STATICCALL, CREATE or CREATE2 */
+  type: string;
+  /** Caller address */
+  from: HexString;
+  /** Called (or created) address */
+  to: HexString;
+  /** Entity the frame is attributed to */
+  entity: EntityType;
+  /** Call depth */
+  depth: number;
+  /** Value sent with the call (wei) */
+  value: bigint;
+  /** Calldata (init code for creations) */
+  input: HexString;
+  /** Return or revert data */
+  output: HexString;
+  /** Gas used by the frame, including its sub-calls */
+  gasUsed: bigint;
+  /** EVM exception that ended the frame, if any */
+  error?: string;
+  /** Frames opened by this frame */
+  calls: TraceCall[];
+}
+
+/**
+ * Storage slot read or written during execution
+ */
+export interface StorageAccess {
+  /** Entity that accessed the slot */
+  entity: EntityType;
+  /** Contract whose storage was accessed */
+  address: HexString;
+  /** Storage slot */
+  slot: HexString;
+  /** Value read or written */
+  value: HexString;
+  /** Whether the slot was written (SSTORE/TSTORE) */
+  write: boolean;
+  /** Whether it was transient storage (TLOAD/TSTORE) */
+  transient: boolean;
+  /** Program counter of the access */
+  pc: number;
 }
 
 /**
  * Execution trace for debugging
  */
 export interface ExecutionTrace {
-  /** All execution steps */
+  /** Execution steps, up to the step limit */
   steps: TraceStep[];
+  /** Whether steps were left out because of the step limit */
+  truncated: boolean;
+  /** Number of times each opcode ran, by entity (counts every step, recorded or not) */
+  opcodes: Partial<Record<EntityType, Record<string, number>>>;
+  /** Top-level call frames (one per validation call, or the EntryPoint call) */
+  calls: TraceCall[];
+  /** Storage accesses in execution order */
+  storage: StorageAccess[];
+}
+
+/**
+ * Options of `debug_traceUserOperation`
+ */
+export interface TraceUserOperationOptions {
+  /** Only report frames, steps, storage accesses, opcodes and violations of this entity */
+  entity?: EntityType;
+  /** Maximum number of steps to return */
+  maxSteps?: number;
+}
+
+/**
+ * Call frame as returned by `debug_traceUserOperation` (amounts as hex quantities, no steps)
+ */
+export interface UserOperationTraceCall {
+  type: string;
+  from: HexString;
+  to: HexString;
+  entity: EntityType;
+  depth: number;
+  value: HexString;
+  input: HexString;
+  output: HexString;
+  gasUsed: HexString;
+  error?: string;
+  calls: UserOperationTraceCall[];
+}
+
+/**
+ * Result of `debug_traceUserOperation`
+ */
+export interface UserOperationTrace {
+  /** Whether the validation passed */
+  isValid: boolean;
+  /** Validation errors */
+  errors: string[];
+  /** Validation violations */
+  violations: ValidationViolation[];
+  /** Gas used per validation phase and in total (hex quantities) */
+  gasUsed: {
+    factory?: HexString;
+    account?: HexString;
+    paymaster?: HexString;
+    total: HexString;
+  };
+  /** Call tree */
+  calls: UserOperationTraceCall[];
+  /** Storage accesses by entity */
+  storage: Partial<Record<EntityType, StorageAccess[]>>;
+  /** Number of times each opcode ran, by entity */
+  opcodes: Partial<Record<EntityType, Record<string, number>>>;
+  /** Execution steps, up to the step limit */
+  steps: TraceStep[];
+  /** Whether steps were left out because of the step limit */
+  truncated: boolean;
 }
 
 /**
@@ -171,4 +575,32 @@ export interface BatchValidationResult {
   errorCode?: ValidationErrorCode;
   /** Error message if invalid */
   error?: string;
+  /** Rejected entity, for ENTITY_THROTTLED / ENTITY_BANNED */
+  data?: ReputationErrorData;
+}
+
+/**
+ * Reputation of an entity as exchanged by debug_bundler_dumpReputation / debug_bundler_setReputation
+ */
+export interface ReputationDumpEntry {
+  /** Entity address */
+  address: HexString;
+  /** UserOperations seen (hex quantity) */
+  opsSeen: HexString;
+  /** UserOperations included (hex quantity) */
+  opsIncluded: HexString;
+  /** Status derived from the counters (only in dumps) */
+  status?: 'ok' | 'throttled' | 'banned';
+}
+
+/**
+ * `data` of an ENTITY_THROTTLED / ENTITY_BANNED error
+ */
+export interface ReputationErrorData {
+  /** Role of the entity in the UserOperation */
+  entity: EntityType;
+  /** Entity address */
+  address: HexString;
+  /** Reputation status of the entity */
+  status: 'throttled' | 'banned';
 }
@@ -0,0 +1,136 @@
+import { AbiCoder, TypedDataEncoder, concat, keccak256, toUtf8Bytes } from 'ethers';
+import { PackedUserOperation, UserOperationV06 } from './types';
+import { isEip7702InitCode, getEip7702InitData } from './eip7702';
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/**
+ * EIP-712 type hash of PackedUserOperation used by EntryPoint v0.8
+ */
+export const PACKED_USEROP_TYPEHASH = keccak256(toUtf8Bytes(
+    'PackedUserOperation(address sender,uint256 nonce,bytes initCode,bytes callData,bytes32 accountGasLimits,' +
+    'uint256 preVerificationGas,bytes32 gasFees,bytes paymasterAndData)'
+));
+
+/**
+ * Packs a UserOperation the way EntryPoint v0.7 does before hashing
+ * (UserOperationLib.encode): dynamic byte fields are replaced by their keccak256.
+ * The signature is not part of the packed data.
+ */
+export function packUserOpForHash(userOp: PackedUserOperation): string {
+    return abiCoder.encode(
+        ['address', 'uint256', 'bytes32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'bytes32'],
+        [
+            userOp.sender,
+            BigInt(userOp.nonce),
+            keccak256(userOp.initCode),
+            keccak256(userOp.callData),
+            userOp.accountGasLimits,
+            BigInt(userOp.preVerificationGas),
+            userOp.gasFees,
+            keccak256(userOp.paymasterAndData),
+        ]
+    );
+}
+
+/**
+ * Computes the userOpHash as returned by EntryPoint v0.7 `getUserOpHash`:
+ * keccak256(abi.encode(keccak256(packedUserOp), entryPoint, chainId))
+ *
+ * @param userOp The UserOperation to hash
+ * @param entryPoint The EntryPoint address the operation targets
+ * @param chainId The chain the operation is meant for
+ */
+export function getUserOpHash(
+    userOp: PackedUserOperation,
+    entryPoint: string,
+    chainId: bigint | number
+): string {
+    const userOpHash = keccak256(packUserOpForHash(userOp));
+    return keccak256(
+        abiCoder.encode(['bytes32', 'address', 'uint256'], [userOpHash, entryPoint, BigInt(chainId)])
+    );
+}
+
+/**
+ * Packs a legacy UserOperation the way EntryPoint v0.6 does before hashing
+ */
+export function packUserOpV06ForHash(userOp: UserOperationV06): string {
+    return abiCoder.encode(
+        ['address', 'uint256', 'bytes32', 'bytes32', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'bytes32'],
+        [
+            userOp.sender,
+            BigInt(userOp.nonce),
+            keccak256(userOp.initCode),
+            keccak256(userOp.callData),
+            BigInt(userOp.callGasLimit),
+            BigInt(userOp.verificationGasLimit),
+            BigInt(userOp.preVerificationGas),
+            BigInt(userOp.maxFeePerGas),
+            BigInt(userOp.maxPriorityFeePerGas),
+            keccak256(userOp.paymasterAndData),
+        ]
+    );
+}
+
+/**
+ * Computes the userOpHash as returned by EntryPoint v0.6 `getUserOpHash`
+ */
+export function getUserOpHashV06(
+    userOp: UserOperationV06,
+    entryPoint: string,
+    chainId: bigint | number
+): string {
+    const userOpHash = keccak256(packUserOpV06ForHash(userOp));
+    return keccak256(
+        abiCoder.encode(['bytes32', 'address', 'uint256'], [userOpHash, entryPoint, BigInt(chainId)])
+    );
+}
+
+/**
+ * Computes the userOpHash as returned by EntryPoint v0.8 `getUserOpHash`:
+ * an EIP-712 typed data hash over the ERC4337 domain (name "ERC4337", version "1").
+ *
+ * For EIP-7702 accounts (initCode starting with the 0x7702 marker) the initCode hash is replaced by
+ * keccak256(delegate || initCode[20:]), as the EntryPoint does.
+ *
+ * @param delegate The sender's EIP-7702 delegate. Defaults to `userOp.eip7702Auth.address`.
+ */
+export function getUserOpHashV08(
+    userOp: PackedUserOperation,
+    entryPoint: string,
+    chainId: bigint | number,
+    delegate?: string
+): string {
+    let initCodeHash = keccak256(userOp.initCode);
+    if (isEip7702InitCode(userOp.initCode)) {
+        const eip7702Delegate = delegate ?? userOp.eip7702Auth?.address;
+        if (!eip7702Delegate) {
+            throw new Error('EIP-7702 initCode requires the sender delegate (eip7702Auth missing)');
+        }
+        initCodeHash = keccak256(concat([eip7702Delegate, getEip7702InitData(userOp.initCode)]));
+    }
+
+    const structHash = keccak256(abiCoder.encode(
+        ['bytes32', 'address', 'uint256', 'bytes32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'bytes32'],
+        [
+            PACKED_USEROP_TYPEHASH,
+            userOp.sender,
+            BigInt(userOp.nonce),
+            initCodeHash,
+            keccak256(userOp.callData),
+            userOp.accountGasLimits,
+            BigInt(userOp.preVerificationGas),
+            userOp.gasFees,
+            keccak256(userOp.paymasterAndData),
+        ]
+    ));
+    const domainSeparator = TypedDataEncoder.hashDomain({
+        name: 'ERC4337',
+        version: '1',
+        chainId: BigInt(chainId),
+        verifyingContract: entryPoint,
+    });
+
+    return keccak256(concat(['0x1901', domainSeparator, structHash]));
+}
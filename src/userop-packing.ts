@@ -0,0 +1,125 @@
+import { PackedUserOperation, UnpackedUserOperation, HexString } from './types';
+
+const UINT128_MAX = (1n << 128n) - 1n;
+
+/**
+ * Encodes a value as a 16-byte hex word (no 0x prefix)
+ */
+function toUint128Hex(value: bigint | HexString, field: string): string {
+    const n = BigInt(value);
+    if (n < 0n || n > UINT128_MAX) {
+        throw new Error(`${field} does not fit in uint128: ${value}`);
+    }
+    return n.toString(16).padStart(32, '0');
+}
+
+/**
+ * Formats a number as a JSON-RPC quantity (e.g. 0x1a)
+ */
+function toQuantity(value: bigint): HexString {
+    return '0x' + value.toString(16);
+}
+
+/**
+ * Packs two uint128 values into a bytes32: high (16 bytes) | low (16 bytes)
+ */
+export function packUint128s(high: bigint | HexString, low: bigint | HexString, fields: [string, string]): HexString {
+    return '0x' + toUint128Hex(high, fields[0]) + toUint128Hex(low, fields[1]);
+}
+
+/**
+ * Splits a bytes32 into its high and low uint128 halves
+ */
+export function unpackUint128s(packed: HexString): [bigint, bigint] {
+    const hex = packed.slice(2).padStart(64, '0');
+    return [BigInt('0x' + hex.slice(0, 32)), BigInt('0x' + hex.slice(32, 64))];
+}
+
+/**
+ * Whether the object looks like an unpacked (RPC-form) v0.7 UserOperation
+ */
+export function isUnpackedUserOp(userOp: object): boolean {
+    return !('accountGasLimits' in userOp) && ('callGasLimit' in userOp || 'verificationGasLimit' in userOp);
+}
+
+/**
+ * Converts an unpacked UserOperation into the PackedUserOperation struct used on-chain
+ */
+export function packUserOp(userOp: UnpackedUserOperation): PackedUserOperation {
+    const initCode = userOp.factory
+        ? userOp.factory + (userOp.factoryData ?? '0x').slice(2)
+        : '0x';
+
+    let paymasterAndData = '0x';
+    if (userOp.paymaster) {
+        paymasterAndData = userOp.paymaster +
+            toUint128Hex(userOp.paymasterVerificationGasLimit ?? 0n, 'paymasterVerificationGasLimit') +
+            toUint128Hex(userOp.paymasterPostOpGasLimit ?? 0n, 'paymasterPostOpGasLimit') +
+            (userOp.paymasterData ?? '0x').slice(2);
+    }
+
+    return {
+        sender: userOp.sender,
+        nonce: userOp.nonce,
+        initCode,
+        callData: userOp.callData,
+        accountGasLimits: packUint128s(userOp.verificationGasLimit, userOp.callGasLimit, ['verificationGasLimit', 'callGasLimit']),
+        preVerificationGas: userOp.preVerificationGas,
+        gasFees: packUint128s(userOp.maxPriorityFeePerGas, userOp.maxFeePerGas, ['maxPriorityFeePerGas', 'maxFeePerGas']),
+        paymasterAndData,
+        signature: userOp.signature,
+        ...(userOp.eip7702Auth ? { eip7702Auth: userOp.eip7702Auth } : {}),
+    };
+}
+
+/**
+ * Converts a PackedUserOperation into the unpacked RPC form.
+ * Optional factory/paymaster fields are omitted when not used.
+ */
+export function unpackUserOp(userOp: PackedUserOperation): UnpackedUserOperation {
+    const [verificationGasLimit, callGasLimit] = unpackUint128s(userOp.accountGasLimits);
+    const [maxPriorityFeePerGas, maxFeePerGas] = unpackUint128s(userOp.gasFees);
+
+    const unpacked: UnpackedUserOperation = {
+        sender: userOp.sender,
+        nonce: userOp.nonce,
+        callData: userOp.callData,
+        callGasLimit: toQuantity(callGasLimit),
+        verificationGasLimit: toQuantity(verificationGasLimit),
+        preVerificationGas: userOp.preVerificationGas,
+        maxFeePerGas: toQuantity(maxFeePerGas),
+        maxPriorityFeePerGas: toQuantity(maxPriorityFeePerGas),
+        signature: userOp.signature,
+    };
+
+    // initCode = factory (20 bytes) + factoryData
+    if (userOp.initCode && userOp.initCode.length >= 42) {
+        unpacked.factory = userOp.initCode.slice(0, 42);
+        unpacked.factoryData = '0x' + userOp.initCode.slice(42);
+    }
+
+    // paymasterAndData = paymaster (20 bytes) + verificationGasLimit (16 bytes) + postOpGasLimit (16 bytes) + data
+    if (userOp.paymasterAndData && userOp.paymasterAndData.length >= 42) {
+        const pmd = userOp.paymasterAndData;
+        unpacked.paymaster = pmd.slice(0, 42);
+        unpacked.paymasterVerificationGasLimit = toQuantity(BigInt('0x' + (pmd.slice(42, 74) || '0')));
+        unpacked.paymasterPostOpGasLimit = toQuantity(BigInt('0x' + (pmd.slice(74, 106) || '0')));
+        unpacked.paymasterData = '0x' + pmd.slice(106);
+    }
+
+    if (userOp.eip7702Auth) {
+        unpacked.eip7702Auth = userOp.eip7702Auth;
+    }
+
+    return unpacked;
+}
+
+/**
+ * Accepts either UserOperation shape and returns the packed form
+ */
+export function normalizeUserOp(userOp: PackedUserOperation | UnpackedUserOperation): PackedUserOperation {
+    if (isUnpackedUserOp(userOp)) {
+        return packUserOp(userOp as UnpackedUserOperation);
+    }
+    return userOp as PackedUserOperation;
+}
@@ -0,0 +1,60 @@
+import { ValidationData } from './types';
+
+const ADDRESS_MASK = (1n << 160n) - 1n;
+const UINT48_MASK = (1n << 48n) - 1n;
+
+/**
+ * Largest uint48 timestamp, used by the EntryPoint when validUntil is 0
+ */
+export const MAX_VALID_UNTIL = Number(UINT48_MASK);
+
+/**
+ * The aggregator value an entity returns to signal a signature failure
+ */
+export const SIG_VALIDATION_FAILED = '0x0000000000000000000000000000000000000001';
+
+/**
+ * Unpacks a uint256 validationData the way EntryPoint v0.7 `_parseValidationData` does.
+ * @param validationData The value returned by the account or paymaster
+ */
+export function parseValidationData(validationData: bigint): ValidationData {
+    const aggregator = '0x' + (validationData & ADDRESS_MASK).toString(16).padStart(40, '0');
+    let validUntil = Number((validationData >> 160n) & UINT48_MASK);
+    if (validUntil === 0) {
+        validUntil = MAX_VALID_UNTIL;
+    }
+    const validAfter = Number((validationData >> 208n) & UINT48_MASK);
+
+    return {
+        aggregator,
+        sigFailed: aggregator === SIG_VALIDATION_FAILED,
+        validAfter,
+        validUntil,
+    };
+}
+
+/**
+ * Packs a ValidationData back into its uint256 form
+ */
+export function packValidationData(data: ValidationData): bigint {
+    const validUntil = data.validUntil === MAX_VALID_UNTIL ? 0n : BigInt(data.validUntil);
+    const aggregator = data.sigFailed ? BigInt(SIG_VALIDATION_FAILED) : BigInt(data.aggregator);
+    return aggregator | (validUntil << 160n) | (BigInt(data.validAfter) << 208n);
+}
+
+/**
+ * Checks the time range of a ValidationData.
+ * The operation must already be valid and remain valid for at least `gracePeriod` seconds,
+ * otherwise it could expire before it is included in a bundle.
+ *
+ * @returns A reason string if the range is not acceptable
+ */
+export function checkValidityRange(data: ValidationData, now: number, gracePeriod: number): string | undefined {
+    if (data.validAfter > now) {
+        return `not due until ${data.validAfter} (now ${now})`;
+    }
+    if (data.validUntil < now + gracePeriod) {
+        return `expired at ${data.validUntil} (now ${now}, grace period ${gracePeriod}s)`;
+    }
+    return undefined;
+}
@@ -1,11 +1,15 @@
 import { VM } from '@ethereumjs/vm';
-import { InterpreterStep } from '@ethereumjs/evm';
-import { Address } from '@ethereumjs/util';
-import { EntityType, ValidationViolation } from './types';
-import { validateStorageRules } from './storage-rules';
+import { Common, Hardfork } from '@ethereumjs/common';
+import { EVMResult, InterpreterStep, Message } from '@ethereumjs/evm';
+import { Address, bigIntToBytes, setLengthLeft } from '@ethereumjs/util';
+import { keccak256 } from 'ethers';
+import { EntityType, ValidationRuleId, ValidationViolation } from './types';
+import { AssociatedSlots, recordAssociatedSlot, validateStorageRules } from './storage-rules';
+import { getPrecompileAllowlist, isPrecompileRange } from './precompiles';
 
 // Opcode values
 const OPCODES = {
+  ORIGIN: 0x32,
   GASPRICE: 0x3a,
   TIMESTAMP: 0x42,
   BLOCKHASH: 0x40,
@@ -15,37 +19,112 @@ const OPCODES = {
   COINBASE: 0x41,
   GASLIMIT: 0x45,
   SELFBALANCE: 0x47,
+  BALANCE: 0x31,
   BASEFEE: 0x48,
+  BLOBHASH: 0x49,
+  BLOBBASEFEE: 0x4a,
   CREATE: 0xf0,
   CREATE2: 0xf5,
   SLOAD: 0x54,
   SSTORE: 0x55,
+  TLOAD: 0x5c,
+  TSTORE: 0x5d,
+  KECCAK256: 0x20,
+  GAS: 0x5a,
+  CALL: 0xf1,
+  CALLCODE: 0xf2,
+  DELEGATECALL: 0xf4,
+  STATICCALL: 0xfa,
+  INVALID: 0xfe,
+  SELFDESTRUCT: 0xff,
+  EXTCODESIZE: 0x3b,
+  EXTCODECOPY: 0x3c,
+  EXTCODEHASH: 0x3f,
 };
 
-// Banned opcodes per EIP-7562
-const BANNED_OPCODES = new Set([
-  OPCODES.GASPRICE,
-  OPCODES.TIMESTAMP,
-  OPCODES.BLOCKHASH,
-  OPCODES.NUMBER,
-  OPCODES.DIFFICULTY,
-  OPCODES.COINBASE,
-  OPCODES.GASLIMIT,
+/**
+ * A banned opcode and the ERC-7562 rule banning it
+ */
+export interface OpcodeRule {
+  /** Opcode name for error messages */
+  name: string;
+  /** ERC-7562 rule ID */
+  rule: ValidationRuleId;
+}
+
+/**
+ * Builds the banned opcode table for the hardfork of the given Common [OP-011].
+ * Opcodes whose EIP is not active are left out (they can't execute anyway),
+ * and 0x44 is reported as PREVRANDAO from the Merge on.
+ */
+export function getBannedOpcodes(common: Common): Map<number, OpcodeRule> {
+  const banned = new Map<number, OpcodeRule>([
+    [OPCODES.ORIGIN, { name: 'ORIGIN', rule: 'OP-011' }],
+    [OPCODES.GASPRICE, { name: 'GASPRICE', rule: 'OP-011' }],
+    [OPCODES.BLOCKHASH, { name: 'BLOCKHASH', rule: 'OP-011' }],
+    [OPCODES.COINBASE, { name: 'COINBASE', rule: 'OP-011' }],
+    [OPCODES.TIMESTAMP, { name: 'TIMESTAMP', rule: 'OP-011' }],
+    [OPCODES.NUMBER, { name: 'NUMBER', rule: 'OP-011' }],
+    [OPCODES.DIFFICULTY, { name: common.gteHardfork(Hardfork.Paris) ? 'PREVRANDAO' : 'DIFFICULTY', rule: 'OP-011' }],
+    [OPCODES.GASLIMIT, { name: 'GASLIMIT', rule: 'OP-011' }],
+    [OPCODES.INVALID, { name: 'INVALID', rule: 'OP-011' }],
+    [OPCODES.SELFDESTRUCT, { name: 'SELFDESTRUCT', rule: 'OP-011' }],
+  ]);
+
+  if (common.isActivatedEIP(3198)) {
+    banned.set(OPCODES.BASEFEE, { name: 'BASEFEE', rule: 'OP-011' });
+  }
+  if (common.isActivatedEIP(4844)) {
+    banned.set(OPCODES.BLOBHASH, { name: 'BLOBHASH', rule: 'OP-011' });
+  }
+  if (common.isActivatedEIP(7516)) {
+    banned.set(OPCODES.BLOBBASEFEE, { name: 'BLOBBASEFEE', rule: 'OP-011' });
+  }
+
+  return banned;
+}
+
+const ADDRESS_MASK = (BigInt(1) << BigInt(160)) - BigInt(1);
+
+// EVM exception messages meaning a frame ran out of gas
+const OUT_OF_GAS_ERRORS = new Set(['out of gas', 'code store out of gas']);
+
+// Opcodes only allowed for staked entities [OP-080]
+const STAKED_ONLY_OPCODES = new Set([
+  OPCODES.BALANCE,
   OPCODES.SELFBALANCE,
-  OPCODES.BASEFEE,
+]);
+
+// Opcodes that may directly follow GAS [OP-012]
+const CALL_OPCODES = new Set([
+  OPCODES.CALL,
+  OPCODES.CALLCODE,
+  OPCODES.DELEGATECALL,
+  OPCODES.STATICCALL,
+]);
+
+// Opcodes that access the code of another address, with the stack position of the address [OP-041]
+const CODE_ACCESS_OPCODES = new Map<number, { name: string; addressIndex: number }>([
+  [OPCODES.EXTCODESIZE, { name: 'EXTCODESIZE', addressIndex: 0 }],
+  [OPCODES.EXTCODECOPY, { name: 'EXTCODECOPY', addressIndex: 0 }],
+  [OPCODES.EXTCODEHASH, { name: 'EXTCODEHASH', addressIndex: 0 }],
+  [OPCODES.CALL, { name: 'CALL', addressIndex: 1 }],
+  [OPCODES.CALLCODE, { name: 'CALLCODE', addressIndex: 1 }],
+  [OPCODES.DELEGATECALL, { name: 'DELEGATECALL', addressIndex: 1 }],
+  [OPCODES.STATICCALL, { name: 'STATICCALL', addressIndex: 1 }],
+]);
+
+// EntryPoint functions entities may call during validation [OP-052/OP-054]
+const ENTRYPOINT_DEPOSIT_TO = '0xb760faf9'; // depositTo(address)
+const ENTRYPOINT_READS = new Set([
+  '0x35567e1a', // getNonce(address,uint192)
+  '0x70a08231', // balanceOf(address)
 ]);
 
 // Opcode names for error messages
 const OPCODE_NAMES: Record<number, string> = {
-  [OPCODES.GASPRICE]: 'GASPRICE',
-  [OPCODES.TIMESTAMP]: 'TIMESTAMP',
-  [OPCODES.BLOCKHASH]: 'BLOCKHASH',
-  [OPCODES.NUMBER]: 'NUMBER',
-  [OPCODES.DIFFICULTY]: 'DIFFICULTY/PREVRANDAO',
-  [OPCODES.COINBASE]: 'COINBASE',
-  [OPCODES.GASLIMIT]: 'GASLIMIT',
   [OPCODES.SELFBALANCE]: 'SELFBALANCE',
-  [OPCODES.BASEFEE]: 'BASEFEE',
+  [OPCODES.BALANCE]: 'BALANCE',
 };
 
 export class ValidationViolationError extends Error {
@@ -73,6 +152,18 @@ export interface ValidationContext {
   violations: ValidationViolation[];
   /** Whether to throw on first violation */
   throwOnViolation: boolean;
+  /** Slots derived from entity addresses via KECCAK256 (for associated storage rules) */
+  associatedSlots: AssociatedSlots;
+  /** Entities holding a sufficient stake in the EntryPoint */
+  stakedEntities: Set<EntityType>;
+  /** Whether the current executing entity is staked */
+  staked: boolean;
+  /** Precompiles accepted during validation (defaults to the allowlist of the VM's chain) */
+  precompiles?: string[];
+  /** Contracts each entity executed or accessed the code of (filled by trackStateAccess) */
+  accessedAddresses: Map<EntityType, Set<string>>;
+  /** Storage slots read before being written, by contract (filled by trackStateAccess) */
+  readSlots: Map<string, Set<string>>;
 }
 
 /**
@@ -84,7 +175,10 @@ export function createValidationContext(options: {
   factory?: Address;
   paymaster?: Address;
   throwOnViolation?: boolean;
+  stakedEntities?: EntityType[];
+  precompiles?: string[];
 }): ValidationContext {
+  const stakedEntities = new Set(options.stakedEntities ?? []);
   return {
     entity: EntityType.SENDER,
     sender: options.sender,
@@ -93,6 +187,12 @@ export function createValidationContext(options: {
     paymaster: options.paymaster,
     violations: [],
     throwOnViolation: options.throwOnViolation ?? false,
+    associatedSlots: new Map(),
+    stakedEntities,
+    staked: stakedEntities.has(EntityType.SENDER),
+    precompiles: options.precompiles,
+    accessedAddresses: new Map(),
+    readSlots: new Map(),
   };
 }
 
@@ -101,6 +201,7 @@ export function createValidationContext(options: {
  */
 export function setCurrentEntity(context: ValidationContext, entity: EntityType): void {
   context.entity = entity;
+  context.staked = context.stakedEntities.has(entity);
 }
 
 /**
@@ -110,19 +211,71 @@ export function setCurrentEntity(context: ValidationContext, entity: EntityType)
  * @returns A cleanup function to remove the listener.
  */
 export function validateExecutionRules(vm: VM, context: ValidationContext): () => void {
+  // Opcode rules for the hardfork the VM runs
+  const bannedOpcodes = getBannedOpcodes(vm.common);
+  const transientStorage = vm.common.isActivatedEIP(1153);
+  const storageOpcodes = new Set([OPCODES.SLOAD, OPCODES.SSTORE]);
+  if (transientStorage) {
+    storageOpcodes.add(OPCODES.TLOAD);
+    storageOpcodes.add(OPCODES.TSTORE);
+  }
+
+  // Precompiles have no code but may be called
+  const precompiles = new Set(
+    (context.precompiles ?? getPrecompileAllowlist(vm.common)).map(a => a.toLowerCase())
+  );
+
+  // Previous opcode executed at each call depth, for rules that depend on the opcode sequence
+  const previousOpcodes = new Map<number, PreviousOpcode>();
+
   const stepListener = async (data: InterpreterStep, next?: (error?: unknown) => void) => {
     try {
+      // GAS is only allowed immediately before a call [OP-012]
+      checkGasUsage(context, previousOpcodes, data);
+
+      // EntryPoint code (including its SenderCreator) is trusted and not subject to the rules
+      if (context.entity === EntityType.ENTRYPOINT) {
+        if (next) next();
+        return;
+      }
+
       const opcode = data.opcode.code;
       const pc = data.pc;
 
       // 1. Banned Opcodes
-      if (BANNED_OPCODES.has(opcode)) {
-        const opcodeName = OPCODE_NAMES[opcode] || `0x${opcode.toString(16)}`;
+      const bannedOpcode = bannedOpcodes.get(opcode);
+      if (bannedOpcode) {
+        const violation: ValidationViolation = {
+          type: 'BANNED_OPCODE',
+          rule: bannedOpcode.rule,
+          severity: 'error',
+          entity: context.entity,
+          message: `Opcode ${bannedOpcode.name} is banned during validation ` +
+            `(entity: ${context.entity}) (${bannedOpcode.rule})`,
+          pc,
+          depth: data.depth,
+          address: data.address.toString(),
+        };
+
+        context.violations.push(violation);
+
+        if (context.throwOnViolation) {
+          throw new ValidationViolationError(violation.message);
+        }
+      }
+
+      // Balance opcodes are only allowed for staked entities [OP-080]
+      if (STAKED_ONLY_OPCODES.has(opcode) && !context.staked) {
         const violation: ValidationViolation = {
           type: 'BANNED_OPCODE',
+          rule: 'OP-080',
+          severity: 'warning',
           entity: context.entity,
-          message: `Opcode ${opcodeName} is banned during validation (entity: ${context.entity})`,
+          message: `Opcode ${OPCODE_NAMES[opcode]} is only allowed for staked entities (entity: ${context.entity}); ` +
+            `staking the ${context.entity} would allow it (OP-080)`,
           pc,
+          depth: data.depth,
+          address: data.address.toString(),
         };
 
         context.violations.push(violation);
@@ -137,9 +290,13 @@ export function validateExecutionRules(vm: VM, context: ValidationContext): () =
         if (context.entity !== EntityType.FACTORY) {
           const violation: ValidationViolation = {
             type: 'ENTITY_RESTRICTION',
+            rule: 'OP-031',
+            severity: 'error',
             entity: context.entity,
             message: `CREATE/CREATE2 only allowed for Factory entity, current: ${context.entity}`,
             pc,
+            depth: data.depth,
+            address: data.address.toString(),
           };
 
           context.violations.push(violation);
@@ -150,15 +307,57 @@ export function validateExecutionRules(vm: VM, context: ValidationContext): () =
         }
       }
 
-      // 3. Storage Rules
-      if (opcode === OPCODES.SLOAD || opcode === OPCODES.SSTORE) {
+      // Code access to addresses without code [OP-041/OP-042]
+      if (CODE_ACCESS_OPCODES.has(opcode)) {
+        const violation = await checkCodeAccess(vm, context, data, precompiles);
+        if (violation) {
+          context.violations.push(violation);
+
+          if (context.throwOnViolation) {
+            throw new ValidationViolationError(violation.message);
+          }
+        }
+      }
+
+      // Calls into the EntryPoint [OP-052/OP-053/OP-054] and value transfers [OP-061]
+      if ((opcode === OPCODES.CALL || opcode === OPCODES.CALLCODE ||
+        opcode === OPCODES.DELEGATECALL || opcode === OPCODES.STATICCALL) && data.stack.length >= 4) {
+        const violations = [checkEntryPointCall(context, data)];
+        if (opcode === OPCODES.CALL || opcode === OPCODES.CALLCODE) {
+          violations.push(checkCallValue(context, data));
+        }
+
+        for (const violation of violations) {
+          if (!violation) continue;
+          context.violations.push(violation);
+
+          if (context.throwOnViolation) {
+            throw new ValidationViolationError(violation.message);
+          }
+        }
+      }
+
+      // 3. Track keccak preimages starting with an entity address (mapping keys)
+      if (opcode === OPCODES.KECCAK256) {
+        trackAssociatedSlot(context, data);
+      }
+
+      // 4. Storage Rules (transient storage follows the same association rules)
+      if (storageOpcodes.has(opcode)) {
         const stack = data.stack;
         if (stack.length > 0) {
           const key = stack[stack.length - 1];
           const keyHex = '0x' + key.toString(16).padStart(64, '0');
           const storageAddress = data.address;
 
-          const violation = checkStorageAccess(context, storageAddress, keyHex, pc);
+          const violation = checkStorageAccess(
+            context,
+            storageAddress,
+            keyHex,
+            pc,
+            data.depth,
+            opcode === OPCODES.SSTORE || opcode === OPCODES.TSTORE
+          );
           if (violation) {
             context.violations.push(violation);
 
@@ -176,15 +375,421 @@ export function validateExecutionRules(vm: VM, context: ValidationContext): () =
     }
   };
 
-  // Attach the listener
+  // Open call frames, to locate frames that run out of gas
+  const frames: { depth: number; address?: string }[] = [];
+  const beforeMessageListener = async (message: Message, next?: (error?: unknown) => void) => {
+    frames.push({ depth: message.depth, address: message.to?.toString() });
+    if (next) next();
+  };
+
+  // Out-of-gas in an inner validation frame, even when the caller catches it [OP-020].
+  // The entity's top frame runs out of the op's own gas limit: that is an op error (AA13/AA23/AA33), not a violation.
+  // Registered before trackEntitiesByCallFrame, so the entity is still the one of the exiting frame.
+  const afterMessageListener = async (result: EVMResult, next?: (error?: unknown) => void) => {
+    try {
+      const frame = frames.pop();
+      const error = result.execResult.exceptionError?.error;
+      const entityAddress = getEntityAddress(context, context.entity)?.toString();
+      const isInnerFrame = entityAddress !== undefined && frames.some(parent => parent.address === entityAddress);
+      if (isInnerFrame && error !== undefined && OUT_OF_GAS_ERRORS.has(error)) {
+        const violation: ValidationViolation = {
+          type: 'OUT_OF_GAS',
+          rule: 'OP-020',
+          severity: 'error',
+          entity: context.entity,
+          message: `A call frame ran out of gas during validation (entity: ${context.entity}) (OP-020)`,
+          depth: frame?.depth,
+          address: frame?.address ?? result.createdAddress?.toString(),
+        };
+
+        context.violations.push(violation);
+
+        if (context.throwOnViolation) {
+          throw new ValidationViolationError(violation.message);
+        }
+      }
+
+      if (next) next();
+    } catch (err) {
+      if (next) next(err);
+      else throw err;
+    }
+  };
+
+  // Attach the listeners
   vm.evm.events?.on('step', stepListener);
+  vm.evm.events?.on('beforeMessage', beforeMessageListener);
+  vm.evm.events?.on('afterMessage', afterMessageListener);
 
   // Return cleanup function
   return () => {
     vm.evm.events?.removeListener('step', stepListener);
+    vm.evm.events?.removeListener('beforeMessage', beforeMessageListener);
+    vm.evm.events?.removeListener('afterMessage', afterMessageListener);
+  };
+}
+
+/**
+ * Contract of an entity of the UserOperation (undefined for the EntryPoint or an absent entity)
+ */
+function getEntityAddress(context: ValidationContext, entity: EntityType): Address | undefined {
+  switch (entity) {
+    case EntityType.SENDER: return context.sender;
+    case EntityType.FACTORY: return context.factory;
+    case EntityType.PAYMASTER: return context.paymaster;
+    default: return undefined;
+  }
+}
+
+/**
+ * Attributes execution to entities by call frame, for validation that runs through the EntryPoint
+ * contract rather than calling each entity directly:
+ * - frames executing the EntryPoint or its SenderCreator belong to the EntryPoint
+ * - the SenderCreator's call into the factory starts a FACTORY frame
+ * - the EntryPoint's calls into the sender and paymaster start SENDER and PAYMASTER frames
+ * - any other frame belongs to the entity that made the call
+ *
+ * @param vm The VM instance.
+ * @param context The validation context; its `entity` is updated as frames are entered and left.
+ * @param senderCreator Address of the EntryPoint's SenderCreator
+ * @returns A cleanup function to remove the listeners.
+ */
+export function trackEntitiesByCallFrame(
+  vm: VM,
+  context: ValidationContext,
+  senderCreator: Address
+): () => void {
+  const frames: { address?: Address; entity: EntityType }[] = [];
+
+  const beforeMessage = async (message: Message, next?: (error?: unknown) => void) => {
+    const parent = frames[frames.length - 1];
+    const to = message.to;
+    let entity = parent?.entity ?? context.entity;
+
+    if (to && (to.equals(context.entryPoint) || to.equals(senderCreator))) {
+      entity = EntityType.ENTRYPOINT;
+    } else if (parent?.address?.equals(senderCreator)) {
+      entity = EntityType.FACTORY;
+    } else if (parent?.address?.equals(context.entryPoint)) {
+      if (to?.equals(context.sender)) entity = EntityType.SENDER;
+      else if (context.paymaster && to?.equals(context.paymaster)) entity = EntityType.PAYMASTER;
+    }
+
+    frames.push({ address: to, entity });
+    setCurrentEntity(context, entity);
+    if (next) next();
+  };
+
+  const afterMessage = async (_result: unknown, next?: (error?: unknown) => void) => {
+    frames.pop();
+    const parent = frames[frames.length - 1];
+    if (parent) {
+      setCurrentEntity(context, parent.entity);
+    }
+    if (next) next();
+  };
+
+  vm.evm.events?.on('beforeMessage', beforeMessage);
+  vm.evm.events?.on('afterMessage', afterMessage);
+
+  return () => {
+    vm.evm.events?.removeListener('beforeMessage', beforeMessage);
+    vm.evm.events?.removeListener('afterMessage', afterMessage);
+  };
+}
+
+/**
+ * Records the state the validation depends on, for revalidation [COD-010]:
+ * - the contracts each entity executed or accessed with EXTCODE* and *CALL
+ * - the storage slots read before the validation wrote them (transient storage is not state)
+ *
+ * @param vm The VM instance.
+ * @param context The validation context; `accessedAddresses` and `readSlots` are filled.
+ * @returns A cleanup function to remove the listener.
+ */
+export function trackStateAccess(vm: VM, context: ValidationContext): () => void {
+  const writtenSlots = new Set<string>();
+
+  const stepListener = async (data: InterpreterStep, next?: (error?: unknown) => void) => {
+    const opcode = data.opcode.code;
+    const stack = data.stack;
+
+    if (context.entity !== EntityType.ENTRYPOINT) {
+      let addresses = context.accessedAddresses.get(context.entity);
+      if (!addresses) {
+        addresses = new Set();
+        context.accessedAddresses.set(context.entity, addresses);
+      }
+      // codeAddress is not set on every frame; DELEGATECALL targets are recorded at the call below
+      addresses.add((data.codeAddress ?? data.address).toString());
+
+      const codeAccess = CODE_ACCESS_OPCODES.get(opcode);
+      if (codeAccess && stack.length > codeAccess.addressIndex) {
+        const word = stack[stack.length - 1 - codeAccess.addressIndex];
+        const target = new Address(setLengthLeft(bigIntToBytes(word & ADDRESS_MASK), 20));
+        if (!isPrecompileRange(target)) {
+          addresses.add(target.toString());
+        }
+      }
+    }
+
+    if ((opcode === OPCODES.SLOAD || opcode === OPCODES.SSTORE) && stack.length > 0) {
+      const address = data.address.toString();
+      const slot = '0x' + stack[stack.length - 1].toString(16).padStart(64, '0');
+      const key = `${address}:${slot}`;
+      if (opcode === OPCODES.SSTORE) {
+        writtenSlots.add(key);
+      } else if (context.entity !== EntityType.ENTRYPOINT && !writtenSlots.has(key)) {
+        // The EntryPoint's own reads (deposits, nonces) change with every bundle and are not the entities' inputs
+        let slots = context.readSlots.get(address);
+        if (!slots) {
+          slots = new Set();
+          context.readSlots.set(address, slots);
+        }
+        slots.add(slot);
+      }
+    }
+
+    if (next) next();
+  };
+
+  vm.evm.events?.on('step', stepListener);
+
+  return () => {
+    vm.evm.events?.removeListener('step', stepListener);
+  };
+}
+
+/**
+ * Last opcode executed at a call depth
+ */
+interface PreviousOpcode {
+  opcode: number;
+  pc: number;
+  entity: EntityType;
+  address: string;
+}
+
+/**
+ * Checks that a GAS opcode at the current or a returned call depth was directly followed by a call,
+ * then remembers the current opcode for its depth
+ */
+function checkGasUsage(
+  context: ValidationContext,
+  previousOpcodes: Map<number, PreviousOpcode>,
+  data: InterpreterStep
+): void {
+  const opcode = data.opcode.code;
+  const misused: (PreviousOpcode & { depth: number })[] = [];
+
+  for (const [depth, previous] of previousOpcodes) {
+    // Frames deeper than the current step have returned; a trailing GAS was never followed by a call
+    if (depth > data.depth) {
+      if (previous.opcode === OPCODES.GAS) misused.push({ ...previous, depth });
+      previousOpcodes.delete(depth);
+    }
+  }
+
+  const previous = previousOpcodes.get(data.depth);
+  if (previous?.opcode === OPCODES.GAS && !CALL_OPCODES.has(opcode)) {
+    misused.push({ ...previous, depth: data.depth });
+  }
+  previousOpcodes.set(data.depth, { opcode, pc: data.pc, entity: context.entity, address: data.address.toString() });
+
+  for (const { pc, entity, depth, address } of misused) {
+    if (entity === EntityType.ENTRYPOINT) continue;
+
+    const violation: ValidationViolation = {
+      type: 'BANNED_OPCODE',
+      rule: 'OP-012',
+      severity: 'error',
+      entity,
+      message: `Opcode GAS is only allowed immediately before CALL, DELEGATECALL, STATICCALL or CALLCODE ` +
+        `(entity: ${entity}) (OP-012)`,
+      pc,
+      depth,
+      address,
+    };
+
+    context.violations.push(violation);
+
+    if (context.throwOnViolation) {
+      throw new ValidationViolationError(violation.message);
+    }
+  }
+}
+
+/**
+ * Checks that EXTCODE* and *CALL opcodes target an address with code [OP-041].
+ * The factory may access the sender it is deploying, which has no code yet [OP-042].
+ * Addresses in the precompile range must be on the chain's allowlist [OP-062].
+ */
+async function checkCodeAccess(
+  vm: VM,
+  context: ValidationContext,
+  data: InterpreterStep,
+  precompiles: Set<string>
+): Promise<ValidationViolation | null> {
+  const { name, addressIndex } = CODE_ACCESS_OPCODES.get(data.opcode.code)!;
+  const stack = data.stack;
+  if (stack.length <= addressIndex) {
+    return null;
+  }
+
+  const word = stack[stack.length - 1 - addressIndex];
+  const target = new Address(setLengthLeft(bigIntToBytes(word & ADDRESS_MASK), 20));
+  if (isPrecompileRange(target)) {
+    if (precompiles.has(target.toString())) {
+      return null;
+    }
+    return {
+      type: 'ENTITY_RESTRICTION',
+      rule: 'OP-062',
+      severity: 'error',
+      entity: context.entity,
+      message: `${name} accessed ${target.toString()}, which is not an accepted precompile ` +
+        `(entity: ${context.entity}) (OP-062)`,
+      pc: data.pc,
+      depth: data.depth,
+      address: data.address.toString(),
+    };
+  }
+  if (context.entity === EntityType.FACTORY && target.equals(context.sender)) {
+    return null;
+  }
+
+  const code = await vm.stateManager.getCode(target);
+  if (code.length > 0) {
+    return null;
+  }
+
+  return {
+    type: 'ENTITY_RESTRICTION',
+    rule: 'OP-041',
+    severity: 'error',
+    entity: context.entity,
+    message: `${name} accessed ${target.toString()}, which has no deployed code (entity: ${context.entity}) (OP-041)`,
+    pc: data.pc,
+    depth: data.depth,
+    address: data.address.toString(),
   };
 }
 
+/**
+ * Checks that value is only sent to the EntryPoint, and only by the sender [OP-061]
+ */
+function checkCallValue(context: ValidationContext, data: InterpreterStep): ValidationViolation | null {
+  const stack = data.stack;
+  const value = stack[stack.length - 3];
+  if (value === BigInt(0)) {
+    return null;
+  }
+
+  const target = new Address(setLengthLeft(bigIntToBytes(stack[stack.length - 2] & ADDRESS_MASK), 20));
+  if (target.equals(context.entryPoint) && context.entity === EntityType.SENDER) {
+    return null;
+  }
+
+  const reason = target.equals(context.entryPoint)
+    ? 'only the sender may send value to the EntryPoint'
+    : 'value may only be sent to the EntryPoint';
+  return {
+    type: 'ENTITY_RESTRICTION',
+    rule: 'OP-061',
+    severity: 'error',
+    entity: context.entity,
+    message: `${data.opcode.name} to ${target.toString()} carries value ${value}; ${reason} ` +
+      `(entity: ${context.entity}) (OP-061)`,
+    pc: data.pc,
+    depth: data.depth,
+    address: data.address.toString(),
+  };
+}
+
+/**
+ * Checks a call into the EntryPoint. Allowed are:
+ * - `depositTo` from the sender or factory [OP-052]
+ * - the fallback (plain deposit) from the sender [OP-053]
+ * - `getNonce` and `balanceOf` reads
+ * Any other access is forbidden [OP-054].
+ */
+function checkEntryPointCall(context: ValidationContext, data: InterpreterStep): ValidationViolation | null {
+  const opcode = data.opcode.code;
+  const stack = data.stack;
+  const target = new Address(setLengthLeft(bigIntToBytes(stack[stack.length - 2] & ADDRESS_MASK), 20));
+  if (!target.equals(context.entryPoint)) {
+    return null;
+  }
+
+  // CALL and CALLCODE take a value argument before the calldata location
+  const argsIndex = opcode === OPCODES.CALL || opcode === OPCODES.CALLCODE ? 3 : 2;
+  const argsOffset = stack[stack.length - 1 - argsIndex];
+  const argsSize = stack[stack.length - 2 - argsIndex] ?? BigInt(0);
+
+  let selector: string | undefined;
+  if (argsSize >= BigInt(4) && argsOffset + BigInt(4) <= BigInt(data.memory.length)) {
+    const start = Number(argsOffset);
+    selector = '0x' + Buffer.from(data.memory.subarray(start, start + 4)).toString('hex');
+  }
+
+  const { entity } = context;
+  const isCall = opcode === OPCODES.CALL || opcode === OPCODES.STATICCALL;
+  if (isCall) {
+    if (selector === undefined && entity === EntityType.SENDER) {
+      return null;
+    }
+    if (selector === ENTRYPOINT_DEPOSIT_TO && (entity === EntityType.SENDER || entity === EntityType.FACTORY)) {
+      return null;
+    }
+    if (selector !== undefined && ENTRYPOINT_READS.has(selector)) {
+      return null;
+    }
+  }
+
+  const called = selector ?? 'fallback';
+  return {
+    type: 'ILLEGAL_ENTRYPOINT_CALL',
+    rule: 'OP-054',
+    severity: 'error',
+    entity,
+    message: `Entity ${entity} is not allowed to call ${called} on the EntryPoint ` +
+      `(${data.opcode.name}) during validation (OP-054)`,
+    pc: data.pc,
+    depth: data.depth,
+    address: data.address.toString(),
+    selector: selector ?? '0x',
+  };
+}
+
+/**
+ * Records the result of a KECCAK256 whose input starts with an entity address,
+ * i.e. the base slot of a `mapping(address => ...)` entry for that entity
+ */
+function trackAssociatedSlot(context: ValidationContext, data: InterpreterStep): void {
+  const stack = data.stack;
+  if (stack.length < 2) {
+    return;
+  }
+  const offset = stack[stack.length - 1];
+  const size = stack[stack.length - 2];
+  // The preimage of a mapping slot is written to memory before hashing
+  if (size < BigInt(32) || offset + size > BigInt(data.memory.length)) {
+    return;
+  }
+
+  const preimage = data.memory.slice(Number(offset), Number(offset + size));
+  const key = preimage.subarray(0, 32);
+  if (key.slice(0, 12).some(b => b !== 0)) {
+    return;
+  }
+
+  const keyAddress = new Address(key.slice(12));
+  const entity = [context.sender, context.factory, context.paymaster].find(a => a?.equals(keyAddress));
+  if (entity) {
+    recordAssociatedSlot(context.associatedSlots, entity, BigInt(keccak256(preimage)));
+  }
+}
+
 /**
  * Checks if storage access is allowed for the current entity
  */
@@ -195,7 +800,9 @@ function checkStorageAccess(
   context: ValidationContext,
   storageAddress: Address,
   slot: string,
-  pc: number
+  pc: number,
+  depth: number,
+  isWrite: boolean
 ): ValidationViolation | null {
   const { entity, sender, factory, paymaster } = context;
 
@@ -205,7 +812,8 @@ function checkStorageAccess(
     storageAddress,
     slot,
     factory,
-    paymaster
+    paymaster,
+    { associatedSlots: context.associatedSlots, stakedEntities: context.stakedEntities, isWrite }
   );
 
   if (result.allowed) {
@@ -214,9 +822,13 @@ function checkStorageAccess(
 
   return {
     type: 'ILLEGAL_STORAGE_ACCESS',
+    rule: result.rule ?? 'STO-033',
+    severity: result.severity ?? 'error',
     entity,
     message: result.reason || `Illegal storage access detected`,
     pc,
+    depth,
+    address: storageAddress.toString(),
     storageAddress: storageAddress.toString(),
     slot,
   };
@@ -0,0 +1,85 @@
+import {
+    encodeValidateUserOp,
+    encodeValidatePaymasterUserOp,
+    encodeValidateUserOpV06,
+    encodeValidatePaymasterUserOpV06,
+    ACCOUNT_INTERFACE,
+    PAYMASTER_INTERFACE,
+    ACCOUNT_V06_INTERFACE
+} from '../src/calldata';
+import { PackedUserOperation, UserOperationV06 } from '../src/types';
+
+describe('Validation calldata encoding', () => {
+    const userOpHash = '0x' + 'ab'.repeat(32);
+    const userOp: PackedUserOperation = {
+        sender: '0x1234567890123456789012345678901234567890',
+        nonce: '0x2a',
+        initCode: '0x',
+        callData: '0xb61d27f600000001',
+        accountGasLimits: '0x000000000000000000000000000186a0000000000000000000000000000186a0',
+        preVerificationGas: '0xc350',
+        gasFees: '0x0000000000000000000000003b9aca000000000000000000000000003b9aca00',
+        paymasterAndData: '0x' + 'bb'.repeat(20) + '00'.repeat(32) + '1234',
+        signature: '0x' + '11'.repeat(65)
+    };
+
+    it('should encode validateUserOp with the full struct', () => {
+        const data = encodeValidateUserOp(userOp, userOpHash, 7n);
+        expect(data.slice(0, 10)).toBe('0x19822f7c');
+
+        // Head: offset to the struct, userOpHash, missingAccountFunds
+        expect(BigInt('0x' + data.slice(10, 74))).toBe(0x60n);
+        expect('0x' + data.slice(74, 138)).toBe(userOpHash);
+
+        const [decoded, hash, missingFunds] = ACCOUNT_INTERFACE.decodeFunctionData('validateUserOp', data);
+        expect(decoded.sender).toBe(userOp.sender);
+        expect(decoded.nonce).toBe(42n);
+        expect(decoded.callData).toBe(userOp.callData);
+        expect(decoded.accountGasLimits).toBe(userOp.accountGasLimits);
+        expect(decoded.paymasterAndData).toBe(userOp.paymasterAndData);
+        expect(decoded.signature).toBe(userOp.signature);
+        expect(hash).toBe(userOpHash);
+        expect(missingFunds).toBe(7n);
+    });
+
+    it('should encode validatePaymasterUserOp with the full struct', () => {
+        const data = encodeValidatePaymasterUserOp(userOp, userOpHash);
+        expect(data.slice(0, 10)).toBe('0x52b7512c');
+
+        const [decoded, hash, maxCost] = PAYMASTER_INTERFACE.decodeFunctionData('validatePaymasterUserOp', data);
+        expect(decoded.preVerificationGas).toBe(50000n);
+        expect(decoded.gasFees).toBe(userOp.gasFees);
+        expect(hash).toBe(userOpHash);
+        expect(maxCost).toBe(0n);
+    });
+
+    describe('v0.6', () => {
+        const userOpV06: UserOperationV06 = {
+            sender: userOp.sender,
+            nonce: '0x2a',
+            initCode: '0x',
+            callData: userOp.callData,
+            callGasLimit: '0x186a0',
+            verificationGasLimit: '0x30d40',
+            preVerificationGas: '0xc350',
+            maxFeePerGas: '0x3b9aca00',
+            maxPriorityFeePerGas: '0x3b9aca00',
+            paymasterAndData: '0x' + 'bb'.repeat(20) + '1234',
+            signature: userOp.signature
+        };
+
+        it('should encode the legacy validateUserOp', () => {
+            const data = encodeValidateUserOpV06(userOpV06, userOpHash);
+            expect(data.slice(0, 10)).toBe('0x3a871cdd');
+
+            const [decoded, hash] = ACCOUNT_V06_INTERFACE.decodeFunctionData('validateUserOp', data);
+            expect(decoded.verificationGasLimit).toBe(200000n);
+            expect(decoded.paymasterAndData).toBe(userOpV06.paymasterAndData);
+            expect(hash).toBe(userOpHash);
+        });
+
+        it('should encode the legacy validatePaymasterUserOp', () => {
+            expect(encodeValidatePaymasterUserOpV06(userOpV06, userOpHash).slice(0, 10)).toBe('0xf465c77e');
+        });
+    });
+});
@@ -0,0 +1,51 @@
+import { Wallet } from 'ethers';
+import {
+    isEip7702InitCode,
+    getEip7702InitData,
+    getDelegationDesignator,
+    parseDelegationDesignator,
+    getAuthorizationHash,
+    recoverAuthority
+} from '../src/eip7702';
+import { Eip7702Authorization } from '../src/types';
+
+describe('EIP-7702 helpers', () => {
+    const delegate = '0xaAaAaAaaAaAaAaaAaAAAAAAAAaaaAaAaAaaAaaAa';
+
+    it('should detect the initCode marker', () => {
+        expect(isEip7702InitCode('0x7702')).toBe(true);
+        expect(isEip7702InitCode('0x7702' + '00'.repeat(18))).toBe(true);
+        expect(isEip7702InitCode('0x7702' + '00'.repeat(18) + 'abcd')).toBe(true);
+        expect(isEip7702InitCode('0x')).toBe(false);
+        expect(isEip7702InitCode('0x7702' + '11'.repeat(18))).toBe(false);
+        expect(isEip7702InitCode(delegate)).toBe(false);
+    });
+
+    it('should extract the initialization data after the marker', () => {
+        expect(getEip7702InitData('0x7702' + '00'.repeat(18))).toBe('0x');
+        expect(getEip7702InitData('0x7702' + '00'.repeat(18) + 'abcd')).toBe('0xabcd');
+    });
+
+    it('should build and parse the delegation designator', () => {
+        const designator = getDelegationDesignator(delegate);
+        expect(designator).toBe('0xef0100' + 'aa'.repeat(20));
+        expect(parseDelegationDesignator(designator)).toBe(delegate);
+        expect(parseDelegationDesignator('0x6000')).toBeUndefined();
+    });
+
+    it('should recover the authority that signed the authorization', () => {
+        const wallet = Wallet.createRandom();
+        const unsigned = { chainId: '0x1', address: delegate, nonce: '0x0' };
+        const signature = wallet.signingKey.sign(
+            getAuthorizationHash({ ...unsigned, yParity: '0x0', r: '0x1', s: '0x1' })
+        );
+        const auth: Eip7702Authorization = {
+            ...unsigned,
+            yParity: '0x' + signature.yParity.toString(16),
+            r: signature.r,
+            s: signature.s,
+        };
+
+        expect(recoverAuthority(auth)).toBe(wallet.address);
+    });
+});
@@ -0,0 +1,43 @@
+import { Common, Hardfork, Mainnet, createCustomCommon } from '@ethereumjs/common';
+import { createAddressFromString } from '@ethereumjs/util';
+import {
+    getPrecompileAllowlist,
+    isPrecompileRange,
+    BLS12_381_PRECOMPILES,
+    DEFAULT_PRECOMPILES,
+    P256VERIFY_PRECOMPILE,
+    POINT_EVALUATION_PRECOMPILE
+} from '../src/precompiles';
+
+describe('Precompiles', () => {
+    const mainnet = (hardfork: Hardfork) => new Common({ chain: Mainnet, hardfork });
+
+    it('should accept 0x01 - 0x09 at every hardfork', () => {
+        const allowlist = getPrecompileAllowlist(mainnet(Hardfork.Shanghai));
+
+        expect(allowlist).toEqual(DEFAULT_PRECOMPILES);
+        expect(allowlist[0]).toBe('0x0000000000000000000000000000000000000001');
+        expect(allowlist[8]).toBe('0x0000000000000000000000000000000000000009');
+    });
+
+    it('should add the precompiles of the simulated hardfork', () => {
+        const cancun = getPrecompileAllowlist(mainnet(Hardfork.Cancun));
+        const prague = getPrecompileAllowlist(mainnet(Hardfork.Prague));
+
+        expect(cancun).toContain(POINT_EVALUATION_PRECOMPILE);
+        expect(cancun).not.toContain(BLS12_381_PRECOMPILES[0]);
+        expect(prague).toEqual([...DEFAULT_PRECOMPILES, POINT_EVALUATION_PRECOMPILE, ...BLS12_381_PRECOMPILES]);
+    });
+
+    it('should add chain-specific precompiles', () => {
+        const optimism = createCustomCommon({ chainId: 10 }, Mainnet, { hardfork: Hardfork.Cancun });
+
+        expect(getPrecompileAllowlist(optimism)).toContain(P256VERIFY_PRECOMPILE);
+        expect(getPrecompileAllowlist(mainnet(Hardfork.Prague))).not.toContain(P256VERIFY_PRECOMPILE);
+    });
+
+    it('should detect the precompile address range', () => {
+        expect(isPrecompileRange(createAddressFromString(P256VERIFY_PRECOMPILE))).toBe(true);
+        expect(isPrecompileRange(createAddressFromString('0x0000000000000000000000000000000000010000'))).toBe(false);
+    });
+});
@@ -1,7 +1,10 @@
 import { SimulationEnvironment } from '../src/simulation';
-import { InMemoryReputationStore, ReputationStatus } from '../src/reputation';
-import { PackedUserOperation } from '../src/types';
-import { createAddressFromString } from '@ethereumjs/util';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileReputationStore, InMemoryReputationStore, ReputationStatus, getReputationStatus } from '../src/reputation';
+import { EntityType, PackedUserOperation, ValidationErrorCode } from '../src/types';
+import { createAddressFromString, hexToBytes } from '@ethereumjs/util';
 
 describe('Reputation System', () => {
     let env: SimulationEnvironment;
@@ -19,6 +22,9 @@ describe('Reputation System', () => {
 
     const PAYMASTER_ADDRESS = '0x9999999999999999999999999999999999999999';
 
+    // The environment's default store, with the optional admin methods
+    const reputation = () => env.getReputationStore() as InMemoryReputationStore;
+
     beforeEach(async () => {
         env = new SimulationEnvironment();
         await env.init();
@@ -36,18 +42,105 @@ describe('Reputation System', () => {
             expect(store.getStatus(address)).toBe(ReputationStatus.OK);
         });
 
-        it('should throttle after threshold failures', () => {
-            // Throttle threshold is 2
-            store.updateStatus(address, false);
-            store.updateStatus(address, false);
+        const see = (count: number) => {
+            for (let i = 0; i < count; i++) {
+                store.updateStatus(address, true);
+            }
+        };
+
+        it('should throttle once floor(opsSeen / 10) exceeds opsIncluded + 10', () => {
+            see(105);
+            expect(store.getStatus(address)).toBe(ReputationStatus.OK);
+            see(4);
+            expect(store.getStatus(address)).toBe(ReputationStatus.OK);
+            see(1);
             expect(store.getStatus(address)).toBe(ReputationStatus.THROTTLED);
         });
 
-        it('should ban after max failures', () => {
-            // Max failures is 5
-            for (let i = 0; i < 5; i++) {
-                store.updateStatus(address, false);
+        it('should ban once floor(opsSeen / 10) exceeds opsIncluded + 50', () => {
+            see(509);
+            expect(store.getStatus(address)).toBe(ReputationStatus.THROTTLED);
+            see(1);
+            expect(store.getStatus(address)).toBe(ReputationStatus.BANNED);
+        });
+
+        it('should round maxSeen down', () => {
+            expect(getReputationStatus(105, 0)).toBe(ReputationStatus.OK);
+            expect(getReputationStatus(109, 0)).toBe(ReputationStatus.OK);
+            expect(getReputationStatus(110, 0)).toBe(ReputationStatus.THROTTLED);
+            expect(getReputationStatus(505, 0)).toBe(ReputationStatus.THROTTLED);
+            expect(getReputationStatus(510, 0)).toBe(ReputationStatus.BANNED);
+        });
+
+        it('should count included ops', () => {
+            see(200);
+            for (let i = 0; i < 10; i++) {
+                store.markIncluded(address);
             }
+            expect(store.getEntry(address)).toMatchObject({ opsSeen: 200, opsIncluded: 10, status: ReputationStatus.OK });
+        });
+
+        it('should count a validation failure as a seen op', () => {
+            store.updateStatus(address, false);
+            expect(store.getEntry(address)).toMatchObject({ opsSeen: 1, status: ReputationStatus.OK });
+        });
+
+        it('should add the configured penalty for a validation failure', () => {
+            store = new InMemoryReputationStore({ failurePenalty: 1000 });
+            store.updateStatus(address, false);
+            expect(store.getEntry(address)).toMatchObject({ opsSeen: 1001, status: ReputationStatus.BANNED });
+        });
+
+        it('should decay by 23/24 every hour', () => {
+            let now = 0;
+            store = new InMemoryReputationStore({ now: () => now });
+            see(240);
+            store.markIncluded(address);
+
+            now = 60 * 60 * 1000 - 1;
+            expect(store.getEntry(address)).toMatchObject({ opsSeen: 240, opsIncluded: 1 });
+            now += 1;
+            expect(store.getEntry(address)).toMatchObject({ opsSeen: 230, opsIncluded: 0 });
+        });
+
+        it('should lift a ban as the counters decay', () => {
+            let now = 0;
+            store = new InMemoryReputationStore({ failurePenalty: 9999, now: () => now });
+            store.updateStatus(address, false);
+
+            now = 24 * 60 * 60 * 1000;
+            expect(store.getStatus(address)).toBe(ReputationStatus.BANNED);
+            now = 7 * 24 * 60 * 60 * 1000;
+            expect(store.getStatus(address)).toBe(ReputationStatus.OK);
+            now = 30 * 24 * 60 * 60 * 1000;
+            expect(store.getEntry(address)).toBeUndefined();
+        });
+
+        it('should set counters and derive the status', () => {
+            store.setEntry(address, 1000, 0);
+            expect(store.getEntry(address)).toMatchObject({ opsSeen: 1000, opsIncluded: 0, status: ReputationStatus.BANNED });
+
+            store.setEntry(address, 1000, 90);
+            expect(store.getStatus(address)).toBe(ReputationStatus.OK);
+        });
+
+        it('should list and clear all entries', () => {
+            const other = createAddressFromString('0x8888888888888888888888888888888888888888');
+            store.updateStatus(address, true);
+            store.updateStatus(other, false);
+            expect(store.getEntries().map(entry => entry.address)).toEqual([PAYMASTER_ADDRESS, other.toString()]);
+
+            store.clearAll();
+
+            expect(store.getEntries()).toEqual([]);
+            expect(store.getStatus(other)).toBe(ReputationStatus.OK);
+        });
+
+        it('should use the configured thresholds', () => {
+            store = new InMemoryReputationStore({ minInclusionRateDenominator: 1, throttlingSlack: 2, banSlack: 4 });
+            see(3);
+            expect(store.getStatus(address)).toBe(ReputationStatus.THROTTLED);
+            see(2);
             expect(store.getStatus(address)).toBe(ReputationStatus.BANNED);
         });
 
@@ -59,15 +152,118 @@ describe('Reputation System', () => {
         });
     });
 
+    describe('FileReputationStore', () => {
+        const address = createAddressFromString(PAYMASTER_ADDRESS);
+        let dir: string;
+        let file: string;
+
+        beforeEach(() => {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reputation-'));
+            file = path.join(dir, 'reputation.jsonl');
+        });
+
+        afterEach(() => {
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        const lines = () => fs.readFileSync(file, 'utf-8').split('\n').filter(Boolean);
+
+        it('should keep the reputation across restarts', () => {
+            const store = new FileReputationStore({ path: file });
+            store.updateStatus(address, true);
+            store.updateStatus(address, true);
+            store.markIncluded(address);
+
+            const reloaded = new FileReputationStore({ path: file });
+
+            expect(reloaded.getEntry(address)).toMatchObject({ opsSeen: 2, opsIncluded: 1, status: ReputationStatus.OK });
+        });
+
+        it('should keep a ban and forget cleared entities', () => {
+            const other = createAddressFromString('0x8888888888888888888888888888888888888888');
+            const store = new FileReputationStore({ path: file, failurePenalty: 1000 });
+            store.updateStatus(address, false);
+            store.updateStatus(other, true);
+            store.clear(other);
+
+            const reloaded = new FileReputationStore({ path: file });
+
+            expect(reloaded.getStatus(address)).toBe(ReputationStatus.BANNED);
+            expect(reloaded.getEntry(other)).toBeUndefined();
+        });
+
+        it('should apply the decay missed while stopped', () => {
+            let now = 0;
+            const store = new FileReputationStore({ path: file, now: () => now });
+            for (let i = 0; i < 240; i++) {
+                store.updateStatus(address, true);
+            }
+
+            now = 60 * 60 * 1000;
+            const reloaded = new FileReputationStore({ path: file, now: () => now });
+
+            expect(reloaded.getEntry(address)?.opsSeen).toBe(230);
+        });
+
+        it('should keep the part of an hour that passed before a restart', () => {
+            let now = 0;
+            const store = new FileReputationStore({ path: file, now: () => now });
+            for (let i = 0; i < 240; i++) {
+                store.updateStatus(address, true);
+            }
+
+            // Restart half an hour later (loading compacts the file), then wait another half hour
+            now = 30 * 60 * 1000;
+            const reloaded = new FileReputationStore({ path: file, now: () => now });
+            expect(reloaded.getEntry(address)?.opsSeen).toBe(240);
+            now = 60 * 60 * 1000;
+
+            expect(reloaded.getEntry(address)?.opsSeen).toBe(230);
+            expect(new FileReputationStore({ path: file, now: () => now }).getEntry(address)?.opsSeen).toBe(230);
+        });
+
+        it('should append one line per change and compact periodically', () => {
+            const store = new FileReputationStore({ path: file, compactEvery: 3 });
+            store.updateStatus(address, true);
+            store.updateStatus(address, true);
+            expect(lines()).toHaveLength(2);
+
+            store.updateStatus(address, true);
+
+            expect(lines()).toHaveLength(1);
+            expect(JSON.parse(lines()[0])).toMatchObject({ address: PAYMASTER_ADDRESS, opsSeen: 3, opsIncluded: 0 });
+            expect(fs.existsSync(`${file}.tmp`)).toBe(false);
+        });
+
+        it('should persist set and cleared reputation', () => {
+            const store = new FileReputationStore({ path: file });
+            store.setEntry(address, 700, 5);
+            expect(new FileReputationStore({ path: file }).getEntry(address)).toMatchObject({ opsSeen: 700, opsIncluded: 5 });
+
+            store.clearAll();
+
+            expect(lines()).toHaveLength(0);
+            expect(new FileReputationStore({ path: file }).getEntries()).toEqual([]);
+        });
+
+        it('should skip a torn last line', () => {
+            const store = new FileReputationStore({ path: file });
+            store.updateStatus(address, true);
+            fs.appendFileSync(file, '{"address":"0x');
+
+            const reloaded = new FileReputationStore({ path: file });
+
+            expect(reloaded.getEntry(address)?.opsSeen).toBe(1);
+        });
+    });
+
     describe('Integration with SimulationEnvironment', () => {
         it('should reject validation if Paymaster is BANNED', async () => {
-            const store = env.getReputationStore();
+            const store = reputation();
             const paymasterAddr = createAddressFromString(PAYMASTER_ADDRESS);
 
             // Manually Ban
-            for (let i = 0; i < 5; i++) {
-                store.updateStatus(paymasterAddr, false);
-            }
+            store.setEntry(paymasterAddr, 1000, 0);
             expect(store.getStatus(paymasterAddr)).toBe(ReputationStatus.BANNED);
 
             // Create UserOp with banned Paymaster
@@ -84,12 +280,13 @@ describe('Reputation System', () => {
         });
 
         it('should reject validation if Paymaster is THROTTLED', async () => {
-            const store = env.getReputationStore();
+            const store = reputation();
             const paymasterAddr = createAddressFromString(PAYMASTER_ADDRESS);
 
-            // Manually Throttle (2 failures)
-            store.updateStatus(paymasterAddr, false);
-            store.updateStatus(paymasterAddr, false);
+            // Manually Throttle (110 ops seen, none included)
+            for (let i = 0; i < 110; i++) {
+                store.updateStatus(paymasterAddr, true);
+            }
             expect(store.getStatus(paymasterAddr)).toBe(ReputationStatus.THROTTLED);
 
             // Create UserOp with throttled Paymaster
@@ -106,38 +303,163 @@ describe('Reputation System', () => {
             expect(result.errors.some(err => err.includes('is THROTTLED'))).toBe(true);
         });
 
-        it('should update reputation on successful validation attempt', async () => {
-            const store = env.getReputationStore();
-            const paymasterAddr = createAddressFromString(PAYMASTER_ADDRESS);
-            const spyUpdate = jest.spyOn(store, 'updateStatus');
+        it('should report the rejected entity with its reputation', async () => {
+            const store = reputation();
+            store.setEntry(createAddressFromString(PAYMASTER_ADDRESS), 1000, 0);
 
-            const userOpWithPaymaster = {
+            const result = await env.simulateValidation({
                 ...mockUserOp,
-                paymasterAndData: PAYMASTER_ADDRESS + '0'.repeat(64) // valid length
-            };
+                paymasterAndData: PAYMASTER_ADDRESS + '0'.repeat(64)
+            });
+
+            expect(result.errorCode).toBe(ValidationErrorCode.ENTITY_BANNED);
+            expect(result.reputationRejections).toEqual([{
+                entity: EntityType.PAYMASTER,
+                address: PAYMASTER_ADDRESS,
+                entry: { address: PAYMASTER_ADDRESS, opsSeen: 1000, opsIncluded: 0, status: ReputationStatus.BANNED },
+            }]);
+        });
+
+        it('should check the sender', async () => {
+            reputation().setEntry(createAddressFromString(mockUserOp.sender), 200, 0);
+
+            const result = await env.simulateValidation(mockUserOp);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errorCode).toBe(ValidationErrorCode.ENTITY_THROTTLED);
+            expect(result.errors).toEqual([`Sender ${mockUserOp.sender} is THROTTLED`]);
+            expect(result.reputationRejections?.[0]).toMatchObject({ entity: EntityType.SENDER, address: mockUserOp.sender });
+        });
+
+        it('should list every rejected entity and prefer a ban', async () => {
+            const store = reputation();
+            store.setEntry(createAddressFromString(mockUserOp.sender), 200, 0);
+            store.setEntry(createAddressFromString(PAYMASTER_ADDRESS), 1000, 0);
+
+            const result = await env.simulateValidation({
+                ...mockUserOp,
+                paymasterAndData: PAYMASTER_ADDRESS + '0'.repeat(64)
+            });
+
+            expect(result.errorCode).toBe(ValidationErrorCode.ENTITY_BANNED);
+            expect(result.reputationRejections?.map(r => r.entity)).toEqual([EntityType.SENDER, EntityType.PAYMASTER]);
+        });
 
-            // This validation will likely fail due to other reasons (empty initCode/sender code),
-            // BUT the entity check happens at the end. simulation catches errors.
-            // If simulation fails due to runtime error (nothing deployed), it might not generate "Violations".
-            // So updateStatus might receive `success=true` regarding RULES, but if simulation crashes?
-            // My code: `isValid = violations.length === 0 && errors.length === 0`.
-            // Update logic: `isPaymasterValid = paymasterViolations.length === 0`.
-            // So even if runtime error occurs, if no *violations* (rules broken), it might count as valid reputation-wise?
-            // Actually, if runtime error -> `errors` has elements -> result.isValid = false.
-            // But `isPaymasterValid` is based ONLY on violations.
-            // This means if Paymaster runs efficiently but has a bug (reverts), it doesn't get BANNED. This is correct per EIP-7562?
-            // EIP-7562 says "If validatePaymasterUserOp reverts... it's a failure? No, mostly about rules."
-            // "Opcodes... Storage..."
-            // So yes, verification failure (revert) usually implies DoS if it consumes gas but doesn't pay?
-            // Actually, if it reverts, the bundler pays?
-            // Anyway, my implementation currently only tracks *violations*.
-
-            await env.simulateValidation(userOpWithPaymaster);
-
-            expect(spyUpdate).toHaveBeenCalledWith(
-                expect.anything(), // Address object
-                true // Expect true because there were no RULE violations
+        it('should check the aggregator the account returns', async () => {
+            const aggregator = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+            // Return validationData naming the aggregator (no time range)
+            await env.deployCode(
+                createAddressFromString(mockUserOp.sender),
+                hexToBytes(`0x7f${aggregator.slice(2).padStart(64, '0')}60005260206000f3`)
             );
+            reputation().setEntry(createAddressFromString(aggregator), 1000, 0);
+
+            const result = await env.simulateValidation({
+                ...mockUserOp,
+                // verificationGasLimit = 100000
+                accountGasLimits: '0x' + (100000).toString(16).padStart(32, '0') + '00'.repeat(16),
+                gasFees: '0x' + '00'.repeat(32)
+            });
+
+            expect(result.isValid).toBe(false);
+            expect(result.senderValidationData?.aggregator).toBe(aggregator);
+            expect(result.errorCode).toBe(ValidationErrorCode.ENTITY_BANNED);
+            expect(result.reputationRejections).toEqual([
+                expect.objectContaining({ entity: EntityType.AGGREGATOR, address: aggregator })
+            ]);
+        });
+
+        it('should take the thresholds from the constructor', () => {
+            const configured = new SimulationEnvironment({ reputation: { throttlingSlack: 0 } });
+            const paymasterAddr = createAddressFromString(PAYMASTER_ADDRESS);
+
+            for (let i = 0; i < 11; i++) {
+                configured.getReputationStore().updateStatus(paymasterAddr, true);
+            }
+
+            expect(configured.getReputationStore().getStatus(paymasterAddr)).toBe(ReputationStatus.THROTTLED);
+        });
+
+        it('should use an injected reputation store', () => {
+            const store = new InMemoryReputationStore();
+            const injected = new SimulationEnvironment({ reputationStore: store });
+
+            expect(injected.getReputationStore()).toBe(store);
+        });
+
+        describe('after validation', () => {
+            const paymasterAddr = createAddressFromString(PAYMASTER_ADDRESS);
+            // Returns an empty context and validationData 0
+            const paymasterReturn = '60406000526000602052600060405260606000f3';
+            const paymasterOp = (paymasterVerificationGasLimit = 100000): PackedUserOperation => ({
+                ...mockUserOp,
+                // verificationGasLimit = 100000
+                accountGasLimits: '0x' + (100000).toString(16).padStart(32, '0') + '00'.repeat(16),
+                gasFees: '0x' + '00'.repeat(32),
+                paymasterAndData: PAYMASTER_ADDRESS + paymasterVerificationGasLimit.toString(16).padStart(32, '0') +
+                    '00'.repeat(16)
+            });
+
+            beforeEach(async () => {
+                env = new SimulationEnvironment({ reputation: { failurePenalty: 1000 } });
+                await env.init();
+                // Return 0
+                await env.deployCode(
+                    createAddressFromString(mockUserOp.sender),
+                    hexToBytes(`0x7f${'00'.repeat(32)}60005260206000f3`)
+                );
+            });
+
+            it('should count every validated operation as seen', async () => {
+                await env.deployCode(paymasterAddr, hexToBytes(`0x${paymasterReturn}`));
+
+                const result = await env.simulateValidation(paymasterOp());
+                await env.simulateValidation(paymasterOp());
+
+                expect(result.isValid).toBe(true);
+                expect(env.getReputationStore().getEntry(paymasterAddr)).toMatchObject({
+                    opsSeen: 2,
+                    opsIncluded: 0,
+                    status: ReputationStatus.OK
+                });
+            });
+
+            it('should penalize a paymaster that breaks the validation rules', async () => {
+                // TIMESTAMP POP [OP-011]
+                await env.deployCode(paymasterAddr, hexToBytes(`0x4250${paymasterReturn}`));
+
+                const result = await env.simulateValidation(paymasterOp());
+
+                expect(result.violations[0].entity).toBe(EntityType.PAYMASTER);
+                expect(env.getReputationStore().getStatus(paymasterAddr)).toBe(ReputationStatus.BANNED);
+            });
+
+            it('should not penalize the paymaster for the gas limits of the operation', async () => {
+                const callee = '0xcccccccccccccccccccccccccccccccccccccccc';
+                // pop(call(10, callee, 0, 0, 0, 0, 0)), then return
+                await env.deployCode(
+                    paymasterAddr,
+                    hexToBytes(`0x6000600060006000600073${callee.slice(2)}600af150${paymasterReturn}`)
+                );
+                // Endless loop: JUMPDEST PUSH1 0 JUMP
+                await env.deployCode(createAddressFromString(callee), hexToBytes('0x5b600056'));
+
+                const innerOutOfGas = await env.simulateValidation(paymasterOp());
+                const tooLittleGas = await env.simulateValidation(paymasterOp(10));
+
+                expect(innerOutOfGas.violations.map(v => v.type)).toEqual(['OUT_OF_GAS']);
+                expect(tooLittleGas.errors[0]).toContain('AA33');
+                expect(env.getReputationStore().getEntry(paymasterAddr)).toMatchObject({ opsSeen: 2 });
+            });
+
+            it('should not update reputation when revalidating', async () => {
+                await env.deployCode(paymasterAddr, hexToBytes(`0x4250${paymasterReturn}`));
+
+                const result = await env.revalidate(paymasterOp(), { isValid: true, errors: [], violations: [] });
+
+                expect(result.violations[0].entity).toBe(EntityType.PAYMASTER);
+                expect(env.getReputationStore().getEntry(paymasterAddr)).toBeUndefined();
+            });
         });
     });
 });
@@ -0,0 +1,33 @@
+import { EntityType, ValidationErrorCode, ValidationViolation } from '../src/types';
+import { RULE_ERROR_CODES, getViolationsErrorCode } from '../src/rules';
+
+describe('Validation rules', () => {
+    const violation = (rule: ValidationViolation['rule'], type: ValidationViolation['type']): ValidationViolation => ({
+        type,
+        rule,
+        severity: 'error',
+        entity: EntityType.SENDER,
+        message: rule,
+    });
+
+    it('should map opcode and storage rules to their error codes', () => {
+        expect(RULE_ERROR_CODES['OP-011']).toBe(ValidationErrorCode.BANNED_OPCODE);
+        expect(RULE_ERROR_CODES['OP-054']).toBe(ValidationErrorCode.BANNED_OPCODE);
+        expect(RULE_ERROR_CODES['STO-033']).toBe(ValidationErrorCode.INVALID_STORAGE);
+        expect(RULE_ERROR_CODES['EREP-050']).toBe(ValidationErrorCode.REJECTED_BY_PAYMASTER);
+    });
+
+    it('should use the rule of the first violation', () => {
+        const violations = [
+            violation('STO-031', 'ILLEGAL_STORAGE_ACCESS'),
+            violation('OP-011', 'BANNED_OPCODE'),
+        ];
+
+        expect(getViolationsErrorCode(violations)).toBe(ValidationErrorCode.INVALID_STORAGE);
+        expect(getViolationsErrorCode(violations.reverse())).toBe(ValidationErrorCode.BANNED_OPCODE);
+    });
+
+    it('should return undefined without violations', () => {
+        expect(getViolationsErrorCode([])).toBeUndefined();
+    });
+});
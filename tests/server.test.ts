@@ -0,0 +1,254 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createAddressFromString, hexToBytes } from '@ethereumjs/util';
+import { JsonRpcServer, ServerOptions } from '../src/server';
+import { SimulationEnvironment } from '../src/simulation';
+import { InMemoryReputationStore, ReputationStatus, ReputationStore } from '../src/reputation';
+import { EntityType, PackedUserOperation, ValidationErrorCode } from '../src/types';
+
+interface RpcResponse {
+    result?: unknown;
+    error?: { code: number; message: string; data?: unknown };
+}
+
+describe('JsonRpcServer', () => {
+    const sender = '0x1234567890123456789012345678901234567890';
+    const userOp: PackedUserOperation = {
+        sender,
+        nonce: '0x0',
+        initCode: '0x',
+        callData: '0x',
+        // verificationGasLimit = 200000, callGasLimit = 0
+        accountGasLimits: '0x' + (200000).toString(16).padStart(32, '0') + '00'.repeat(16),
+        preVerificationGas: '0x0',
+        gasFees: '0x' + '00'.repeat(32),
+        paymasterAndData: '0x',
+        signature: '0x'
+    };
+
+    let httpServer: http.Server;
+    let url: string;
+    let simEnv: SimulationEnvironment;
+
+    // The default store, with the optional admin methods
+    const reputation = () => simEnv.getReputationStore() as InMemoryReputationStore;
+
+    // Serves the JSON-RPC app on a free port
+    const serve = async (options: Partial<ServerOptions> = {}) => {
+        const server = new JsonRpcServer({ port: 0, ...options });
+        simEnv = server['simulationEnv'];
+        await simEnv.init();
+        httpServer = http.createServer(server['app']);
+        await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/`;
+    };
+
+    const call = async (method: string, params: unknown[], headers: Record<string, string> = {}) => {
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'content-type': 'application/json', ...headers },
+            body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+        });
+        return { status: response.status, body: await response.json() as RpcResponse };
+    };
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await new Promise(resolve => httpServer?.close(resolve));
+    });
+
+    describe('eth_validateUserOperation', () => {
+        it('should return true for a valid operation', async () => {
+            await serve();
+            // Return 0
+            await simEnv.deployCode(
+                createAddressFromString(sender),
+                hexToBytes(`0x7f${'00'.repeat(32)}60005260206000f3`)
+            );
+
+            const { body } = await call('eth_validateUserOperation', [userOp]);
+
+            expect(body.result).toBe(true);
+        });
+
+        it('should return the error code of the broken rule', async () => {
+            await serve();
+            // TIMESTAMP STOP [OP-011]
+            await simEnv.deployCode(createAddressFromString(sender), hexToBytes('0x4200'));
+
+            const { body } = await call('eth_validateUserOperation', [userOp]);
+
+            expect(body.error!.code).toBe(ValidationErrorCode.BANNED_OPCODE);
+            expect(body.error!.message).toContain('Validation Failed');
+        });
+
+        it('should return the rejected entity as data', async () => {
+            await serve();
+            const paymaster = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+            const store = reputation();
+            store.setEntry(createAddressFromString(sender), 200, 0);
+            store.setEntry(createAddressFromString(paymaster), 1000, 0);
+            const paymasterAndData = paymaster + '00'.repeat(32);
+
+            const { body } = await call('eth_validateUserOperation', [{ ...userOp, paymasterAndData }]);
+
+            expect(body.error).toMatchObject({
+                code: ValidationErrorCode.ENTITY_BANNED,
+                data: { entity: EntityType.PAYMASTER, address: paymaster, status: 'banned' },
+            });
+            expect(body.error!.message).toContain(`Paymaster ${paymaster} is BANNED`);
+        });
+
+        it('should report malformed requests as internal errors', async () => {
+            await serve();
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+            const { body } = await call('eth_validateUserOperation', []);
+
+            expect(body.error).toMatchObject({ code: -32603, message: 'Internal error' });
+            expect(body.error!.data).toContain('Missing params');
+        });
+    });
+
+    describe('eth_validateUserOperations', () => {
+        it('should return the code and data of each rejected operation', async () => {
+            await serve();
+            reputation().setEntry(createAddressFromString(sender), 200, 0);
+
+            const { body } = await call('eth_validateUserOperations', [[userOp]]);
+
+            expect(body.result).toEqual([{
+                index: 0,
+                isValid: false,
+                errorCode: ValidationErrorCode.ENTITY_THROTTLED,
+                error: `Sender ${sender} is THROTTLED`,
+                data: { entity: EntityType.SENDER, address: sender, status: 'throttled' },
+            }]);
+        });
+    });
+
+    describe('reputation admin methods', () => {
+        const paymaster = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+        const bearer = (token: string) => ({ authorization: `Bearer ${token}` });
+
+        it('should hide the methods without the debug flag', async () => {
+            await serve();
+
+            const { body } = await call('debug_bundler_dumpReputation', []);
+
+            expect(body.error).toEqual({ code: -32601, message: 'Method not found' });
+        });
+
+        it('should reject requests without the admin token', async () => {
+            await serve({ debugMethods: true, adminToken: 'secret' });
+
+            for (const headers of [{}, bearer('wrong'), bearer('secreT'), { authorization: 'secret' }]) {
+                const { status, body } = await call('debug_bundler_clearState', [], headers);
+                expect(status).toBe(401);
+                expect(body.error).toEqual({ code: -32600, message: 'Unauthorized' });
+            }
+        });
+
+        it('should accept requests with the admin token', async () => {
+            await serve({ debugMethods: true, adminToken: 'secret' });
+
+            const { status, body } = await call('debug_bundler_dumpReputation', [], bearer('secret'));
+
+            expect(status).toBe(200);
+            expect(body.result).toEqual([]);
+        });
+
+        it('should set reputation from hex quantities or numbers', async () => {
+            await serve({ debugMethods: true });
+
+            await call('debug_bundler_setReputation', [[
+                { address: paymaster, opsSeen: '0x3e8', opsIncluded: 0 },
+                { address: sender, opsSeen: 5, opsIncluded: '0x1' },
+            ]]);
+            const { body } = await call('debug_bundler_dumpReputation', []);
+
+            expect(body.result).toEqual([
+                { address: paymaster, opsSeen: '0x3e8', opsIncluded: '0x0', status: 'banned' },
+                { address: sender, opsSeen: '0x5', opsIncluded: '0x1', status: 'ok' },
+            ]);
+        });
+
+        it('should reject malformed reputation entries', async () => {
+            await serve({ debugMethods: true });
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+            const badAddress = await call('debug_bundler_setReputation', [[{ address: '0x1234', opsSeen: 0, opsIncluded: 0 }]]);
+            const badCount = await call('debug_bundler_setReputation', [[{ address: paymaster, opsSeen: -1, opsIncluded: 0 }]]);
+            const badHex = await call('debug_bundler_setReputation', [[{ address: paymaster, opsSeen: 0, opsIncluded: '12' }]]);
+
+            expect(badAddress.body.error!.data).toBe('Invalid reputation address: 0x1234');
+            expect(badCount.body.error!.data).toBe('opsSeen must be a non-negative quantity, got -1');
+            expect(badHex.body.error!.data).toBe('opsIncluded must be a non-negative quantity, got 12');
+            expect(reputation().getEntries()).toHaveLength(0);
+        });
+
+        it('should report admin methods a custom store does not implement', async () => {
+            const reputationStore: ReputationStore = {
+                getStatus: () => ReputationStatus.OK,
+                updateStatus: () => undefined,
+                clear: () => undefined,
+                getEntry: () => undefined,
+            };
+            await serve({ debugMethods: true, reputationStore });
+
+            const { body } = await call('debug_bundler_dumpReputation', []);
+
+            expect(body.error).toEqual({
+                code: -32601,
+                message: 'getEntries is not supported by this reputation store'
+            });
+        });
+
+        it('should warn at startup when the methods need no token', async () => {
+            const server = new JsonRpcServer({ port: 0, debugMethods: true });
+            jest.spyOn(server['app'], 'listen').mockImplementation((() => undefined) as never);
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+            await server.start();
+
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining('without an admin token'));
+        });
+    });
+
+    describe('debug_traceUserOperation', () => {
+        it('should cap the steps a request asks for', async () => {
+            await serve({ maxTraceSteps: 5 });
+            await simEnv.deployCode(
+                createAddressFromString(sender),
+                hexToBytes(`0x7f${'00'.repeat(32)}60005260206000f3`)
+            );
+            const simulate = jest.spyOn(simEnv, 'simulateValidation');
+
+            const { body } = await call('debug_traceUserOperation', [userOp, undefined, { maxSteps: 1e9 }]);
+
+            expect(body.result).toMatchObject({ isValid: true, truncated: true });
+            expect((body.result as { steps: unknown[] }).steps).toHaveLength(5);
+            expect(simulate.mock.calls[0][2]?.trace).toMatchObject({ maxSteps: 5 });
+        });
+
+        it('should not update reputation', async () => {
+            await serve();
+            const paymaster = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+            await simEnv.deployCode(
+                createAddressFromString(sender),
+                hexToBytes(`0x7f${'00'.repeat(32)}60005260206000f3`)
+            );
+            // TIMESTAMP POP [OP-011], then return an empty context and validationData 0
+            await simEnv.deployCode(
+                createAddressFromString(paymaster),
+                hexToBytes('0x425060406000526000602052600060405260606000f3')
+            );
+            const paymasterAndData = paymaster + (100000).toString(16).padStart(32, '0') + '00'.repeat(16);
+
+            const { body } = await call('debug_traceUserOperation', [{ ...userOp, paymasterAndData }]);
+
+            expect(body.result).toMatchObject({ isValid: false, violations: [{ entity: EntityType.PAYMASTER }] });
+            expect(reputation().getEntries()).toHaveLength(0);
+        });
+    });
+});
@@ -1,6 +1,12 @@
-import { SimulationEnvironment } from '../src/simulation';
-import { createAddressFromString, hexToBytes } from '@ethereumjs/util';
-import { PackedUserOperation } from '../src/types';
+import { SimulationEnvironment, getSenderCreatorAddress } from '../src/simulation';
+import { bigIntToBytes, bytesToHex, createAddressFromString, hexToBytes, setLengthLeft } from '@ethereumjs/util';
+import { BaseWallet, Wallet, getCreateAddress, keccak256 } from 'ethers';
+import { EntityType, Eip7702Authorization, PackedUserOperation, UserOperationV06, ValidationErrorCode } from '../src/types';
+import { getUserOpHash, getUserOpHashV06, getUserOpHashV08 } from '../src/userop-hash';
+import { ENTRYPOINT_V06_ADDRESS, ENTRYPOINT_V07_ADDRESS, ENTRYPOINT_V08_ADDRESS } from '../src/entrypoint';
+import { ENTRYPOINT_SIMULATIONS_V07_BYTECODE, SENDER_CREATOR_V07_BYTECODE } from '../src/entrypoint-bytecode';
+import { getAuthorizationHash } from '../src/eip7702';
+import { getDepositInfoSlot } from '../src/stake';
 
 describe('SimulationEnvironment', () => {
     let simEnv: SimulationEnvironment;
@@ -61,7 +67,8 @@ describe('SimulationEnvironment', () => {
             nonce: '0x0',
             initCode: '0x',
             callData: '0x',
-            accountGasLimits: '0x0000000000000000000000000000000000000000000000000000000000000000',
+            // verificationGasLimit = 1000000, callGasLimit = 0
+            accountGasLimits: '0x' + (1000000).toString(16).padStart(32, '0') + '00'.repeat(16),
             preVerificationGas: '0x0',
             gasFees: '0x0000000000000000000000000000000000000000000000000000000000000000',
             paymasterAndData: '0x',
@@ -79,14 +86,14 @@ describe('SimulationEnvironment', () => {
             expect(result).toHaveProperty('violations');
         });
 
-        it('should validate UserOp without initCode or paymaster', async () => {
+        it('should reject an undeployed sender without initCode', async () => {
             await simEnv.init();
             const userOp = createValidUserOp();
 
             const result = await simEnv.simulateValidation(userOp);
 
-            // Should complete without fatal errors (sender has no code, but that's OK)
-            expect(result.errors).toHaveLength(0);
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('AA20');
         });
 
         it('should parse factory from initCode', async () => {
@@ -103,6 +110,74 @@ describe('SimulationEnvironment', () => {
             expect(result).toHaveProperty('isValid');
         });
 
+        describe('factory deployment', () => {
+            const factory = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+            // Init code deploying a single STOP byte:
+            // mstore8(0, 0) return(0, 1)
+            const initCode = '60006000536001' + '6000f3';
+            // mstore(0, <initCode>) create(0, 22, 10) mstore(0, <created>) return(0, 32)
+            const creatingFactory = hexToBytes(
+                `0x69${initCode}600052600a60166000f060005260206000f3`
+            );
+
+            it('should call the factory through the SenderCreator and accept the created sender', async () => {
+                await simEnv.init();
+                await simEnv.deployCode(createAddressFromString(factory), creatingFactory);
+                const userOp = createValidUserOp();
+                userOp.sender = getCreateAddress({ from: factory, nonce: 0 });
+                userOp.initCode = factory;
+
+                const result = await simEnv.simulateValidation(userOp, undefined, { trace: true });
+
+                expect(result.errors).toHaveLength(0);
+                // Validation state is reverted afterwards: the deployment shows in the trace
+                const [factoryCall] = result.trace!.calls;
+                expect(factoryCall.calls[0]).toMatchObject({ type: 'CREATE', to: userOp.sender.toLowerCase(), output: '0x00' });
+            });
+
+            it('should reject initCode for an already deployed sender (AA10)', async () => {
+                await simEnv.init();
+                const userOp = createValidUserOp();
+                await simEnv.deployCode(createAddressFromString(userOp.sender), hexToBytes('0x00'));
+                userOp.initCode = factory;
+
+                const result = await simEnv.simulateValidation(userOp);
+
+                expect(result.isValid).toBe(false);
+                expect(result.errors[0]).toContain('AA10');
+            });
+
+            it('should reject a reverting factory (AA13)', async () => {
+                await simEnv.init();
+                // revert(0, 0)
+                await simEnv.deployCode(createAddressFromString(factory), hexToBytes('0x60006000fd'));
+                const userOp = createValidUserOp();
+                userOp.initCode = factory;
+
+                const result = await simEnv.simulateValidation(userOp);
+
+                expect(result.isValid).toBe(false);
+                expect(result.errors[0]).toContain('AA13');
+            });
+
+            it('should reject a factory returning another address (AA14)', async () => {
+                await simEnv.init();
+                // Return CALLER: mstore(0, caller()) return(0, 32)
+                await simEnv.deployCode(createAddressFromString(factory), hexToBytes('0x3360005260206000f3'));
+                const userOp = createValidUserOp();
+                userOp.initCode = factory;
+
+                const result = await simEnv.simulateValidation(userOp);
+
+                expect(result.isValid).toBe(false);
+                expect(result.errors[0]).toContain('AA14');
+                // The factory is called by the SenderCreator, not by the EntryPoint
+                expect(result.errors[0].toLowerCase()).toContain(
+                    getSenderCreatorAddress('0x0000000071727De22E5E9d8BAf0edAc6f37da032').toLowerCase()
+                );
+            });
+        });
+
         it('should parse paymaster from paymasterAndData', async () => {
             await simEnv.init();
             const userOp = createValidUserOp();
@@ -133,5 +208,702 @@ describe('SimulationEnvironment', () => {
             expect(result.violations.length).toBeGreaterThan(0);
             expect(result.violations[0].type).toBe('BANNED_OPCODE');
         });
+
+        it('should pass the userOpHash to validateUserOp', async () => {
+            await simEnv.init();
+            const userOp = createValidUserOp();
+            const sender = createAddressFromString(userOp.sender);
+
+            // PUSH1 0x24 CALLDATALOAD PUSH1 0x00 SSTORE STOP: store the userOpHash argument in slot 0
+            await simEnv.deployCode(sender, hexToBytes('0x60243560005500'));
+
+            const result = await simEnv.simulateValidation(userOp, undefined, { trace: true });
+            expect(result.errors).toHaveLength(0);
+
+            const [stored] = result.trace!.storage;
+            const expected = getUserOpHash(userOp, '0x0000000071727De22E5E9d8BAf0edAc6f37da032', 1);
+            expect(stored).toMatchObject({ address: sender.toString(), slot: '0x' + '00'.repeat(32), write: true });
+            expect(stored.value).toBe(expected);
+        });
+
+        // PUSH32 <value> PUSH1 0x00 MSTORE PUSH1 0x20 PUSH1 0x00 RETURN
+        const returnWord = (value: bigint) =>
+            hexToBytes(`0x7f${value.toString(16).padStart(64, '0')}60005260206000f3`);
+
+        it('should decode validationData returned by the account', async () => {
+            await simEnv.init();
+            const userOp = createValidUserOp();
+            const sender = createAddressFromString(userOp.sender);
+            await simEnv.deployCode(sender, returnWord(0n));
+
+            const result = await simEnv.simulateValidation(userOp);
+
+            expect(result.isValid).toBe(true);
+            expect(result.senderValidationData?.sigFailed).toBe(false);
+        });
+
+        it('should reject a signature failure with INVALID_SIGNATURE', async () => {
+            await simEnv.init();
+            const userOp = createValidUserOp();
+            const sender = createAddressFromString(userOp.sender);
+            await simEnv.deployCode(sender, returnWord(1n));
+
+            const result = await simEnv.simulateValidation(userOp);
+
+            expect(result.isValid).toBe(false);
+            expect(result.senderValidationData?.sigFailed).toBe(true);
+            expect(result.errorCode).toBe(ValidationErrorCode.INVALID_SIGNATURE);
+            expect(result.errors[0]).toContain('AA24');
+        });
+
+        it('should reject an account aggregator', async () => {
+            await simEnv.init();
+            const userOp = createValidUserOp();
+            const aggregator = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+            await simEnv.deployCode(createAddressFromString(userOp.sender), returnWord(BigInt(aggregator)));
+
+            const result = await simEnv.simulateValidation(userOp);
+
+            expect(result.isValid).toBe(false);
+            expect(result.senderValidationData).toMatchObject({ aggregator, sigFailed: false });
+            expect(result.errorCode).toBe(ValidationErrorCode.INVALID_SIGNATURE);
+            expect(result.errors[0]).toContain(`AA24 signature error: unsupported aggregator ${aggregator}`);
+        });
+
+        it('should reject an expired validity range', async () => {
+            await simEnv.init();
+            const userOp = createValidUserOp();
+            const sender = createAddressFromString(userOp.sender);
+            // validUntil = 1 (long expired)
+            await simEnv.deployCode(sender, returnWord(1n << 160n));
+
+            const result = await simEnv.simulateValidation(userOp);
+
+            expect(result.isValid).toBe(false);
+            expect(result.senderValidationData?.validUntil).toBe(1);
+            expect(result.errorCode).toBe(ValidationErrorCode.REJECTED_BY_EP);
+            expect(result.errors[0]).toContain('AA22');
+        });
+
+        it('should decode validationData returned by the paymaster', async () => {
+            await simEnv.init();
+            const userOp = createValidUserOp();
+            const paymaster = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+            // paymasterVerificationGasLimit = 100000, postOpGasLimit = 0
+            userOp.paymasterAndData = paymaster + (100000).toString(16).padStart(32, '0') + '00'.repeat(16);
+            await simEnv.deployCode(createAddressFromString(userOp.sender), returnWord(0n));
+
+            // Return (bytes context = "", uint256 validationData = 1):
+            // mstore(0x00, 0x40) mstore(0x20, 1) mstore(0x40, 0) return(0x00, 0x60)
+            await simEnv.deployCode(
+                createAddressFromString(paymaster),
+                hexToBytes('0x60406000526001602052600060405260606000f3')
+            );
+
+            const result = await simEnv.simulateValidation(userOp);
+
+            expect(result.paymasterValidationData?.sigFailed).toBe(true);
+            expect(result.errorCode).toBe(ValidationErrorCode.INVALID_SIGNATURE);
+            expect(result.errors[0]).toContain('AA34');
+        });
+
+        it('should reject a paymaster aggregator', async () => {
+            await simEnv.init();
+            const userOp = createValidUserOp();
+            const paymaster = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+            const aggregator = '0xcccccccccccccccccccccccccccccccccccccccc';
+            userOp.paymasterAndData = paymaster + (100000).toString(16).padStart(32, '0') + '00'.repeat(16);
+            await simEnv.deployCode(createAddressFromString(userOp.sender), returnWord(0n));
+
+            // Return (bytes context = "", uint256 validationData = aggregator):
+            // mstore(0x00, 0x40) mstore(0x20, aggregator) mstore(0x40, 0) return(0x00, 0x60)
+            await simEnv.deployCode(
+                createAddressFromString(paymaster),
+                hexToBytes(`0x604060005273${aggregator.slice(2)}602052600060405260606000f3`)
+            );
+
+            const result = await simEnv.simulateValidation(userOp);
+
+            expect(result.isValid).toBe(false);
+            expect(result.paymasterValidationData).toMatchObject({ aggregator, sigFailed: false });
+            expect(result.errorCode).toBe(ValidationErrorCode.INVALID_SIGNATURE);
+            expect(result.errors[0]).toContain('AA34');
+        });
+    });
+
+    describe('validation gas', () => {
+        const sender = '0x1234567890123456789012345678901234567890';
+        const callee = '0x9999999999999999999999999999999999999999';
+        const gasLimits = (verificationGasLimit: number) =>
+            '0x' + verificationGasLimit.toString(16).padStart(32, '0') + '00'.repeat(16);
+        const userOp = (verificationGasLimit: number, paymasterAndData = '0x'): PackedUserOperation => ({
+            sender,
+            nonce: '0x0',
+            initCode: '0x',
+            callData: '0x',
+            accountGasLimits: gasLimits(verificationGasLimit),
+            preVerificationGas: '0x0',
+            gasFees: '0x' + '00'.repeat(32),
+            paymasterAndData,
+            signature: '0x'
+        });
+        // PUSH32 <value> PUSH1 0x00 MSTORE PUSH1 0x20 PUSH1 0x00 RETURN
+        const returnZero = '7f' + '00'.repeat(32) + '60005260206000f3';
+
+        it('should run validateUserOp with the verificationGasLimit as budget', async () => {
+            await simEnv.init();
+            await simEnv.deployCode(createAddressFromString(sender), hexToBytes(`0x${returnZero}`));
+
+            const enough = await simEnv.simulateValidation(userOp(100000));
+            const tooLittle = await simEnv.simulateValidation(userOp(10));
+
+            expect(enough.isValid).toBe(true);
+            expect(tooLittle.isValid).toBe(false);
+            expect(tooLittle.errors[0]).toContain('AA23');
+            // The op's own limit ran out, not an inner frame [OP-020]
+            expect(tooLittle.violations).toHaveLength(0);
+        });
+
+        it('should flag an out-of-gas in an inner frame even if the entity recovers', async () => {
+            await simEnv.init();
+            // pop(call(10, callee, 0, 0, 0, 0, 0)), then return 0
+            await simEnv.deployCode(
+                createAddressFromString(sender),
+                hexToBytes(`0x6000600060006000600073${callee.slice(2)}600af150${returnZero}`)
+            );
+            // Endless loop: JUMPDEST PUSH1 0 JUMP
+            await simEnv.deployCode(createAddressFromString(callee), hexToBytes('0x5b600056'));
+
+            const result = await simEnv.simulateValidation(userOp(100000));
+
+            expect(result.errors).toHaveLength(0);
+            expect(result.isValid).toBe(false);
+            expect(result.violations).toHaveLength(1);
+            expect(result.violations[0].type).toBe('OUT_OF_GAS');
+            expect(result.violations[0].entity).toBe(EntityType.SENDER);
+        });
+
+        it('should report a factory running out of the verificationGasLimit as AA13', async () => {
+            await simEnv.init();
+            const factory = '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+            // Endless loop: JUMPDEST PUSH1 0 JUMP
+            await simEnv.deployCode(createAddressFromString(factory), hexToBytes('0x5b600056'));
+
+            const result = await simEnv.simulateValidation({ ...userOp(100000), initCode: factory });
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('AA13');
+            expect(result.violations).toHaveLength(0);
+        });
+
+        it('should reject validation gas limits above the maximum without simulating', async () => {
+            simEnv = new SimulationEnvironment({ maxVerificationGas: BigInt(50000) });
+            await simEnv.init();
+            const paymaster = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+            const runCall = jest.spyOn(simEnv.getVM().evm, 'runCall');
+
+            const result = await simEnv.simulateValidation(
+                userOp(100000, paymaster + (100000).toString(16).padStart(32, '0') + '00'.repeat(16))
+            );
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toEqual([
+                'verificationGasLimit 100000 exceeds the maximum of 50000',
+                'paymasterVerificationGasLimit 100000 exceeds the maximum of 50000'
+            ]);
+            expect(runCall).not.toHaveBeenCalled();
+        });
+
+        it('should run the paymaster with the paymasterVerificationGasLimit as budget', async () => {
+            await simEnv.init();
+            const paymaster = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+            await simEnv.deployCode(createAddressFromString(sender), hexToBytes(`0x${returnZero}`));
+            await simEnv.deployCode(
+                createAddressFromString(paymaster),
+                hexToBytes('0x60406000526000602052600060405260606000f3')
+            );
+
+            // paymasterVerificationGasLimit = 10
+            const result = await simEnv.simulateValidation(
+                userOp(100000, paymaster + (10).toString(16).padStart(32, '0') + '00'.repeat(16))
+            );
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('AA33');
+            expect(result.violations).toHaveLength(0);
+        });
+
+        it('should report the gas used per phase and warn about inefficient limits', async () => {
+            await simEnv.init();
+            const paymaster = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+            await simEnv.deployCode(createAddressFromString(sender), hexToBytes(`0x${returnZero}`));
+            await simEnv.deployCode(
+                createAddressFromString(paymaster),
+                hexToBytes('0x60406000526000602052600060405260606000f3')
+            );
+
+            const result = await simEnv.simulateValidation(
+                userOp(100000, paymaster + (100000).toString(16).padStart(32, '0') + '00'.repeat(16))
+            );
+
+            expect(result.isValid).toBe(true);
+            expect(result.phaseGasUsed?.factory).toBeUndefined();
+            expect(result.phaseGasUsed?.account).toBeGreaterThan(0n);
+            expect(result.phaseGasUsed?.paymaster).toBeGreaterThan(0n);
+            expect(result.gasUsed).toBe(result.phaseGasUsed!.account! + result.phaseGasUsed!.paymaster!);
+            expect(result.warnings).toHaveLength(2);
+            expect(result.warnings![0]).toContain('verificationGasLimit 100000 is inefficient');
+            expect(result.warnings![1]).toContain('paymasterVerificationGasLimit 100000 is inefficient');
+        });
+
+        it('should not warn when the limits are used efficiently enough', async () => {
+            simEnv = new SimulationEnvironment({ minGasEfficiency: 0 });
+            await simEnv.init();
+            await simEnv.deployCode(createAddressFromString(sender), hexToBytes(`0x${returnZero}`));
+
+            const result = await simEnv.simulateValidation(userOp(100000));
+
+            expect(result.isValid).toBe(true);
+            expect(result.warnings).toHaveLength(0);
+        });
+    });
+
+    describe('staked entities', () => {
+        const sender = '0x1234567890123456789012345678901234567890';
+        const paymaster = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+        const userOp: PackedUserOperation = {
+            sender,
+            nonce: '0x0',
+            initCode: '0x',
+            callData: '0x',
+            accountGasLimits: '0x' + (1000000).toString(16).padStart(32, '0') + '00'.repeat(16),
+            preVerificationGas: '0x0',
+            gasFees: '0x' + '00'.repeat(32),
+            paymasterAndData: paymaster + (100000).toString(16).padStart(32, '0') + '00'.repeat(16),
+            signature: '0x'
+        };
+
+        // Return (bytes context = 0xab, uint256 validationData = 0):
+        // mstore(0x00, 0x40) mstore(0x20, 0) mstore(0x40, 1) mstore(0x60, 0xab << 248) return(0x00, 0x80)
+        const paymasterWithContext = hexToBytes(
+            `0x604060005260006020526001604052${'7fab' + '00'.repeat(31)}60605260806000f3`
+        );
+
+        const deploy = async (env: SimulationEnvironment) => {
+            await env.init();
+            await env.deployCode(createAddressFromString(sender), hexToBytes('0x00'));
+            await env.deployCode(createAddressFromString(paymaster), paymasterWithContext);
+        };
+
+        it('should reject a context from an unstaked paymaster (EREP-050)', async () => {
+            await deploy(simEnv);
+
+            const result = await simEnv.simulateValidation(userOp);
+
+            expect(result.isValid).toBe(false);
+            expect(result.violations[0].message).toContain('EREP-050');
+        });
+
+        it('should accept a context from a paymaster staked via config', async () => {
+            const env = new SimulationEnvironment({
+                stakes: { [paymaster]: { stake: BigInt('1000000000000000000'), unstakeDelaySec: 86400 } },
+            });
+            await deploy(env);
+
+            const result = await env.simulateValidation(userOp);
+
+            expect(result.violations).toHaveLength(0);
+            expect(result.isValid).toBe(true);
+        });
+
+        it('should apply the configured minimum stake', async () => {
+            const env = new SimulationEnvironment({
+                stakes: { [paymaster]: { stake: BigInt(100), unstakeDelaySec: 86400 } },
+                minStake: BigInt(1000),
+            });
+            await deploy(env);
+
+            const result = await env.simulateValidation(userOp);
+
+            expect(result.isValid).toBe(false);
+        });
+    });
+
+    describe('EntryPoint v0.6', () => {
+        const userOpV06: UserOperationV06 = {
+            sender: '0x1234567890123456789012345678901234567890',
+            nonce: '0x0',
+            initCode: '0x',
+            callData: '0x',
+            callGasLimit: '0x0',
+            verificationGasLimit: '0xf4240',
+            preVerificationGas: '0x0',
+            maxFeePerGas: '0x0',
+            maxPriorityFeePerGas: '0x0',
+            paymasterAndData: '0x',
+            signature: '0x'
+        };
+
+        it('should call the legacy validateUserOp with the v0.6 userOpHash', async () => {
+            await simEnv.init();
+            const sender = createAddressFromString(userOpV06.sender);
+
+            // Store the selector (calldata word 0) in slot 0 and the userOpHash (word at 0x24) in slot 1
+            // PUSH1 0x00 CALLDATALOAD PUSH1 0x00 SSTORE PUSH1 0x24 CALLDATALOAD PUSH1 0x01 SSTORE STOP
+            await simEnv.deployCode(sender, hexToBytes('0x60003560005560243560015500'));
+
+            const result = await simEnv.simulateValidation(userOpV06, ENTRYPOINT_V06_ADDRESS, { trace: true });
+            expect(result.errors).toHaveLength(0);
+
+            const [selector, hash] = result.trace!.storage;
+            expect(selector).toMatchObject({ address: sender.toString(), slot: '0x' + '00'.repeat(32), write: true });
+            expect(hash).toMatchObject({ address: sender.toString(), slot: '0x' + '00'.repeat(31) + '01', write: true });
+
+            expect(selector.value.slice(2, 10)).toBe('3a871cdd');
+            expect(hash.value).toBe(getUserOpHashV06(userOpV06, ENTRYPOINT_V06_ADDRESS, 1));
+        });
+
+        it('should fail when account and paymaster together exceed verificationGasLimit', async () => {
+            await simEnv.init();
+            const paymaster = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+            // Return 0 (18 gas); the paymaster returns an empty context and 0 (42 gas)
+            await simEnv.deployCode(
+                createAddressFromString(userOpV06.sender),
+                hexToBytes(`0x7f${'00'.repeat(32)}60005260206000f3`)
+            );
+            await simEnv.deployCode(
+                createAddressFromString(paymaster),
+                hexToBytes('0x60406000526000602052600060405260606000f3')
+            );
+
+            // Each phase fits in 50 gas, both together do not
+            const result = await simEnv.simulateValidation(
+                { ...userOpV06, verificationGasLimit: '0x32', paymasterAndData: paymaster },
+                ENTRYPOINT_V06_ADDRESS
+            );
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('AA40 over verificationGasLimit');
+        });
+
+        it('should reject a UserOperation that does not match the EntryPoint version', async () => {
+            await simEnv.init();
+            const result = await simEnv.simulateValidation(userOpV06);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('does not match EntryPoint v0.7');
+        });
+    });
+
+    describe('EntryPoint v0.8 and EIP-7702', () => {
+        const delegate = '0xdddddddddddddddddddddddddddddddddddddddd';
+
+        const signAuthorization = (wallet: BaseWallet, nonce = '0x0'): Eip7702Authorization => {
+            const unsigned = { chainId: '0x1', address: delegate, nonce };
+            const signature = wallet.signingKey.sign(
+                getAuthorizationHash({ ...unsigned, yParity: '0x0', r: '0x1', s: '0x1' })
+            );
+            return { ...unsigned, yParity: '0x' + signature.yParity.toString(16), r: signature.r, s: signature.s };
+        };
+
+        const create7702UserOp = (wallet: BaseWallet): PackedUserOperation => ({
+            sender: wallet.address,
+            nonce: '0x0',
+            initCode: '0x7702' + '00'.repeat(18),
+            callData: '0x',
+            accountGasLimits: '0x' + (1000000).toString(16).padStart(32, '0') + '00'.repeat(16),
+            preVerificationGas: '0x0',
+            gasFees: '0x' + '00'.repeat(32),
+            paymasterAndData: '0x',
+            signature: '0x',
+            eip7702Auth: signAuthorization(wallet)
+        });
+
+        it('should install the delegation and pass the v0.8 userOpHash', async () => {
+            await simEnv.init();
+            const wallet = Wallet.createRandom();
+            const userOp = create7702UserOp(wallet);
+
+            // Delegate stores the userOpHash argument in slot 0 of the sender
+            await simEnv.deployCode(createAddressFromString(delegate), hexToBytes('0x60243560005500'));
+
+            const result = await simEnv.simulateValidation(userOp, ENTRYPOINT_V08_ADDRESS, { trace: true });
+            expect(result.errors).toHaveLength(0);
+
+            // The sender ran the delegate's code in its own storage
+            const [stored] = result.trace!.storage;
+            expect(stored).toMatchObject({ address: wallet.address.toLowerCase(), slot: '0x' + '00'.repeat(32), write: true });
+            expect(stored.value).toBe(getUserOpHashV08(userOp, ENTRYPOINT_V08_ADDRESS, 1));
+        });
+
+        it('should reject an authorization not signed by the sender', async () => {
+            await simEnv.init();
+            const userOp = create7702UserOp(Wallet.createRandom());
+            userOp.eip7702Auth = signAuthorization(Wallet.createRandom());
+
+            const result = await simEnv.simulateValidation(userOp, ENTRYPOINT_V08_ADDRESS);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('not by sender');
+        });
+
+        it('should reject an authorization with a stale nonce', async () => {
+            await simEnv.init();
+            const wallet = Wallet.createRandom();
+            const userOp = create7702UserOp(wallet);
+            userOp.eip7702Auth = signAuthorization(wallet, '0x5');
+
+            const result = await simEnv.simulateValidation(userOp, ENTRYPOINT_V08_ADDRESS);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('does not match sender nonce');
+        });
+
+        it('should require a delegation for the 7702 initCode marker', async () => {
+            await simEnv.init();
+            const userOp = create7702UserOp(Wallet.createRandom());
+            delete userOp.eip7702Auth;
+
+            const result = await simEnv.simulateValidation(userOp, ENTRYPOINT_V08_ADDRESS);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('is not delegated');
+        });
+    });
+
+    describe('revalidation', () => {
+        const sender = '0x1234567890123456789012345678901234567890';
+        const helper = '0xcccccccccccccccccccccccccccccccccccccccc';
+        const userOp: PackedUserOperation = {
+            sender,
+            nonce: '0x0',
+            initCode: '0x',
+            callData: '0x',
+            accountGasLimits: '0x' + (200000).toString(16).padStart(32, '0') + '00'.repeat(16),
+            preVerificationGas: '0x0',
+            gasFees: '0x' + '00'.repeat(32),
+            paymasterAndData: '0x',
+            signature: '0x'
+        };
+        // pop(sload(1)) pop(extcodesize(helper)), then return 0
+        const senderCode = `0x6001545073${helper.slice(2)}3b50` +
+            `7f${'00'.repeat(32)}60005260206000f3` as `0x${string}`;
+        const slot1 = '0x' + '00'.repeat(31) + '01';
+
+        const deploy = async () => {
+            await simEnv.init();
+            await simEnv.deployCode(createAddressFromString(sender), hexToBytes(senderCode));
+            await simEnv.deployCode(createAddressFromString(helper), hexToBytes('0x00'));
+        };
+
+        it('should record the code and storage the validation accessed', async () => {
+            await deploy();
+
+            const result = await simEnv.simulateValidation(userOp);
+
+            expect(Object.keys(result.accessedCode![EntityType.SENDER]!)).toEqual([sender, helper]);
+            expect(result.accessedCode![EntityType.SENDER]![helper]).toBe(keccak256('0x00'));
+            expect(result.storageReads).toEqual({ [sender]: { [slot1]: '0x' + '00'.repeat(32) } });
+        });
+
+        it('should leave no state behind', async () => {
+            await simEnv.init();
+            // sstore(0, 1), then return 0
+            await simEnv.deployCode(
+                createAddressFromString(sender),
+                hexToBytes(`0x600160005560206000f3`)
+            );
+
+            await simEnv.simulateValidation(userOp);
+
+            const stored = await simEnv.getVM().stateManager.getStorage(
+                createAddressFromString(sender),
+                new Uint8Array(32)
+            );
+            expect(stored.length).toBe(0);
+        });
+
+        it('should pass when nothing changed', async () => {
+            await deploy();
+            const result = await simEnv.simulateValidation(userOp);
+
+            const revalidated = await simEnv.revalidate(userOp, result);
+
+            expect(revalidated.isValid).toBe(true);
+            expect(revalidated.violations).toHaveLength(0);
+        });
+
+        it('should reject a change of accessed code (COD-010)', async () => {
+            await deploy();
+            const result = await simEnv.simulateValidation(userOp);
+
+            await simEnv.deployCode(createAddressFromString(helper), hexToBytes('0x6000'));
+            const revalidated = await simEnv.revalidate(userOp, result);
+
+            expect(revalidated.isValid).toBe(false);
+            expect(revalidated.violations[0]).toMatchObject({
+                type: 'CODE_CHANGED',
+                rule: 'COD-010',
+                severity: 'error',
+                entity: EntityType.SENDER,
+                address: helper,
+            });
+        });
+
+        it('should reject a change of a storage slot read during validation', async () => {
+            await deploy();
+            const result = await simEnv.simulateValidation(userOp);
+
+            await simEnv.getVM().stateManager.putStorage(
+                createAddressFromString(sender),
+                hexToBytes(slot1 as `0x${string}`),
+                hexToBytes('0x2a')
+            );
+            const revalidated = await simEnv.revalidate(userOp, result);
+
+            expect(revalidated.isValid).toBe(false);
+            expect(revalidated.errors[0]).toContain(`Storage slot ${slot1} of ${sender} changed since validation`);
+        });
+    });
+
+    describe('EntryPoint bytecode', () => {
+        const sender = '0x1234567890123456789012345678901234567890';
+        const userOp: PackedUserOperation = {
+            sender,
+            nonce: '0x0',
+            initCode: '0x',
+            callData: '0x',
+            // verificationGasLimit = 200000, callGasLimit = 0
+            accountGasLimits: '0x' + (200000).toString(16).padStart(32, '0') + '00'.repeat(16),
+            preVerificationGas: '0x0',
+            gasFees: '0x' + '00'.repeat(32),
+            paymasterAndData: '0x',
+            signature: '0x'
+        };
+
+        // PUSH32 <value> PUSH1 0x00 MSTORE PUSH1 0x20 PUSH1 0x00 RETURN
+        const returnWord = (value: bigint) =>
+            `7f${value.toString(16).padStart(64, '0')}60005260206000f3`;
+
+        beforeEach(() => {
+            simEnv = new SimulationEnvironment({ useEntryPointBytecode: true });
+        });
+
+        it('should deploy the EntryPoint and its SenderCreator', async () => {
+            await simEnv.init();
+            await simEnv.deployEntryPoint(ENTRYPOINT_V07_ADDRESS);
+
+            const vm = simEnv.getVM();
+            const code = await vm.stateManager.getCode(createAddressFromString(ENTRYPOINT_V07_ADDRESS));
+            const senderCreator = await vm.stateManager.getCode(
+                createAddressFromString(getSenderCreatorAddress(ENTRYPOINT_V07_ADDRESS))
+            );
+            expect(bytesToHex(code)).toBe(ENTRYPOINT_SIMULATIONS_V07_BYTECODE);
+            expect(bytesToHex(senderCreator)).toBe(SENDER_CREATOR_V07_BYTECODE);
+        });
+
+        it('should validate through simulateValidation', async () => {
+            await simEnv.init();
+            await simEnv.deployCode(createAddressFromString(sender), hexToBytes(`0x${returnWord(0n)}`));
+
+            const result = await simEnv.simulateValidation(userOp);
+
+            expect(result.errors).toHaveLength(0);
+            expect(result.isValid).toBe(true);
+            expect(result.senderValidationData?.sigFailed).toBe(false);
+        });
+
+        it('should simulate the same operation twice', async () => {
+            await simEnv.init();
+            await simEnv.deployCode(createAddressFromString(sender), hexToBytes(`0x${returnWord(0n)}`));
+
+            await simEnv.simulateValidation(userOp);
+            const result = await simEnv.simulateValidation(userOp);
+
+            // The first simulation did not increment the nonce (AA25)
+            expect(result.errors).toHaveLength(0);
+            expect(result.isValid).toBe(true);
+        });
+
+        it('should report the gas of the frames the EntryPoint calls', async () => {
+            await simEnv.init();
+            await simEnv.deployCode(createAddressFromString(sender), hexToBytes(`0x${returnWord(0n)}`));
+
+            const result = await simEnv.simulateValidation(userOp);
+
+            expect(result.phaseGasUsed?.factory).toBeUndefined();
+            expect(result.phaseGasUsed?.account).toBeGreaterThan(0n);
+            expect(result.gasUsed).toBe(result.phaseGasUsed?.account);
+        });
+
+        it('should decode a signature failure from the EntryPoint result', async () => {
+            await simEnv.init();
+            await simEnv.deployCode(createAddressFromString(sender), hexToBytes(`0x${returnWord(1n)}`));
+
+            const result = await simEnv.simulateValidation(userOp);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errorCode).toBe(ValidationErrorCode.INVALID_SIGNATURE);
+        });
+
+        it('should attribute opcodes to the account frame only', async () => {
+            await simEnv.init();
+            // TIMESTAMP POP, then return 0
+            await simEnv.deployCode(createAddressFromString(sender), hexToBytes(`0x4250${returnWord(0n)}`));
+
+            const result = await simEnv.simulateValidation(userOp);
+
+            expect(result.violations.length).toBeGreaterThan(0);
+            expect(result.violations.every(v => v.entity === EntityType.SENDER)).toBe(true);
+            expect(result.violations[0].type).toBe('BANNED_OPCODE');
+        });
+
+        it('should surface FailedOp reasons', async () => {
+            await simEnv.init();
+
+            const result = await simEnv.simulateValidation(userOp);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('AA20 account not deployed');
+        });
+
+        it('should not record the EntryPoint\'s own storage reads for revalidation', async () => {
+            await simEnv.init();
+            await simEnv.deployEntryPoint(ENTRYPOINT_V07_ADDRESS);
+            const paymaster = '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+            await simEnv.deployCode(createAddressFromString(sender), hexToBytes(`0x${returnWord(0n)}`));
+            // Returns an empty context and validationData 0
+            await simEnv.deployCode(
+                createAddressFromString(paymaster),
+                hexToBytes('0x60406000526000602052600060405260606000f3')
+            );
+            const paymasterOp = {
+                ...userOp,
+                paymasterAndData: paymaster + (100000).toString(16).padStart(32, '0') + '00'.repeat(16)
+            };
+            const result = await simEnv.simulateValidation(paymasterOp);
+            expect(result.isValid).toBe(true);
+            expect(result.storageReads).not.toHaveProperty(ENTRYPOINT_V07_ADDRESS.toLowerCase());
+
+            // Another operation of the bundle changes the paymaster's deposit
+            await simEnv.getVM().stateManager.putStorage(
+                createAddressFromString(ENTRYPOINT_V07_ADDRESS),
+                setLengthLeft(bigIntToBytes(getDepositInfoSlot(createAddressFromString(paymaster))), 32),
+                hexToBytes('0x0de0b6b3a7640000')
+            );
+            const revalidated = await simEnv.revalidate(paymasterOp, result);
+
+            expect(revalidated.errors).toHaveLength(0);
+            expect(revalidated.isValid).toBe(true);
+        });
+
+        it('should reject EntryPoint versions other than v0.7', async () => {
+            await simEnv.init();
+
+            const result = await simEnv.simulateValidation(userOp, ENTRYPOINT_V08_ADDRESS);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('only available for v0.7');
+        });
     });
 });
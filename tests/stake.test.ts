@@ -0,0 +1,81 @@
+import { createVM } from '@ethereumjs/vm';
+import { Account, createAddressFromString, hexToBytes } from '@ethereumjs/util';
+import { Interface } from 'ethers';
+import { EntryPointVersion, ENTRYPOINT_V07_ADDRESS } from '../src/entrypoint';
+import { ENTRYPOINT_SIMULATIONS_V07_BYTECODE } from '../src/entrypoint-bytecode';
+import { decodeDepositInfo, isStaked, readStakeInfo, DEFAULT_MIN_STAKE, DEFAULT_MIN_UNSTAKE_DELAY } from '../src/stake';
+
+describe('Stake', () => {
+    const ONE_ETH = BigInt('1000000000000000000');
+
+    describe('decodeDepositInfo', () => {
+        it('should decode the v0.7 layout (full deposit word, packed stake word)', () => {
+            const word1 = BigInt(1) | (ONE_ETH << 8n) | (BigInt(86400) << 120n) | (BigInt(5) << 152n);
+            const info = decodeDepositInfo(EntryPointVersion.V07, BigInt(42), word1);
+
+            expect(info).toEqual({
+                deposit: BigInt(42),
+                staked: true,
+                stake: ONE_ETH,
+                unstakeDelaySec: 86400,
+                withdrawTime: 5,
+            });
+        });
+
+        it('should decode the v0.6 layout (deposit and stake packed together)', () => {
+            const word0 = BigInt(42) | (BigInt(1) << 112n) | (ONE_ETH << 120n);
+            const word1 = BigInt(86400) | (BigInt(5) << 32n);
+            const info = decodeDepositInfo(EntryPointVersion.V06, word0, word1);
+
+            expect(info).toEqual({
+                deposit: BigInt(42),
+                staked: true,
+                stake: ONE_ETH,
+                unstakeDelaySec: 86400,
+                withdrawTime: 5,
+            });
+        });
+    });
+
+    describe('isStaked', () => {
+        it('should require both the minimum stake and unstake delay', () => {
+            expect(isStaked({ stake: DEFAULT_MIN_STAKE, unstakeDelaySec: DEFAULT_MIN_UNSTAKE_DELAY })).toBe(true);
+            expect(isStaked({ stake: DEFAULT_MIN_STAKE - 1n, unstakeDelaySec: DEFAULT_MIN_UNSTAKE_DELAY })).toBe(false);
+            expect(isStaked({ stake: DEFAULT_MIN_STAKE, unstakeDelaySec: 60 })).toBe(false);
+        });
+
+        it('should honour custom thresholds', () => {
+            expect(isStaked({ stake: BigInt(10), unstakeDelaySec: 60 }, BigInt(10), 60)).toBe(true);
+        });
+
+        it('should not count a stake being withdrawn', () => {
+            expect(isStaked({ staked: false, stake: ONE_ETH, unstakeDelaySec: 86400 })).toBe(false);
+        });
+    });
+
+    describe('readStakeInfo', () => {
+        it('should read the stake written by the EntryPoint addStake', async () => {
+            const vm = await createVM();
+            const entryPoint = createAddressFromString(ENTRYPOINT_V07_ADDRESS);
+            const paymaster = createAddressFromString('0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb');
+            await vm.stateManager.putCode(entryPoint, hexToBytes(ENTRYPOINT_SIMULATIONS_V07_BYTECODE as `0x${string}`));
+            await vm.stateManager.putAccount(paymaster, new Account(BigInt(0), ONE_ETH * 10n));
+
+            const stakeManager = new Interface(['function addStake(uint32 unstakeDelaySec) payable']);
+            const result = await vm.evm.runCall({
+                to: entryPoint,
+                caller: paymaster,
+                value: ONE_ETH * 2n,
+                data: hexToBytes(stakeManager.encodeFunctionData('addStake', [86400]) as `0x${string}`),
+                gasLimit: BigInt(200000),
+            });
+            expect(result.execResult.exceptionError).toBeUndefined();
+
+            const info = await readStakeInfo(vm, entryPoint, paymaster, EntryPointVersion.V07);
+            expect(info.staked).toBe(true);
+            expect(info.stake).toBe(ONE_ETH * 2n);
+            expect(info.unstakeDelaySec).toBe(86400);
+            expect(info.deposit).toBe(BigInt(0));
+        });
+    });
+});
@@ -1,4 +1,5 @@
-import { validateUserOpStructure } from '../src/static-checks';
+import { validateUserOpStructure, validateEip7702Authorization } from '../src/static-checks';
+import { EntryPointVersion } from '../src/entrypoint';
 
 describe('validateUserOpStructure', () => {
     const validUserOp = {
@@ -60,4 +61,176 @@ describe('validateUserOpStructure', () => {
         expect(result.isValid).toBe(false);
         expect(result.errors[0]).toContain('Invalid gasFees format');
     });
+
+    test('should fail if the verificationGasLimit exceeds the maximum', () => {
+        // verificationGasLimit = 100000
+        const accountGasLimits = '0x' + (100000).toString(16).padStart(32, '0') + '00'.repeat(16);
+        const op = { ...validUserOp, accountGasLimits };
+
+        expect(validateUserOpStructure(op).isValid).toBe(true);
+        const result = validateUserOpStructure(op, EntryPointVersion.V07, BigInt(50000));
+        expect(result.isValid).toBe(false);
+        expect(result.errors).toContain('verificationGasLimit 100000 exceeds the maximum of 50000');
+    });
+
+    describe('unpacked (RPC) form', () => {
+        const validUnpackedOp = {
+            sender: '0x0000000000000000000000000000000000000000',
+            nonce: '0x0',
+            callData: '0x',
+            callGasLimit: '0x0',
+            verificationGasLimit: '0x0',
+            preVerificationGas: '0xC350',
+            maxFeePerGas: '0x0',
+            maxPriorityFeePerGas: '0x0',
+            signature: '0x'
+        };
+
+        test('should pass for a valid unpacked UserOp', () => {
+            const result = validateUserOpStructure(validUnpackedOp);
+            expect(result.errors).toHaveLength(0);
+            expect(result.isValid).toBe(true);
+        });
+
+        test('should accept null for the unused factory and paymaster fields', () => {
+            const op = {
+                ...validUnpackedOp,
+                factory: null,
+                factoryData: null,
+                paymaster: null,
+                paymasterVerificationGasLimit: null,
+                paymasterPostOpGasLimit: null,
+                paymasterData: null
+            };
+            const result = validateUserOpStructure(op);
+            expect(result.errors).toHaveLength(0);
+            expect(result.isValid).toBe(true);
+        });
+
+        test('should fail if a paymaster has null gas limits', () => {
+            const invalidOp = {
+                ...validUnpackedOp,
+                paymaster: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+                paymasterVerificationGasLimit: null,
+                paymasterPostOpGasLimit: null
+            };
+            const result = validateUserOpStructure(invalidOp);
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('paymasterVerificationGasLimit');
+        });
+
+        test('should fail if unpacked fields are missing', () => {
+            const invalidOp = { ...validUnpackedOp };
+            // @ts-ignore
+            delete invalidOp.maxFeePerGas;
+
+            const result = validateUserOpStructure(invalidOp);
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('Missing field: maxFeePerGas');
+        });
+
+        test('should fail if a paymaster has no gas limits', () => {
+            const invalidOp = { ...validUnpackedOp, paymaster: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb' };
+            const result = validateUserOpStructure(invalidOp);
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('paymasterVerificationGasLimit');
+        });
+
+        test('should fail if a gas value exceeds uint128', () => {
+            const invalidOp = { ...validUnpackedOp, callGasLimit: '0x1' + '00'.repeat(16) };
+            const result = validateUserOpStructure(invalidOp);
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('Invalid callGasLimit format');
+        });
+    });
+
+    describe('v0.6 UserOperation', () => {
+        const validV06Op = {
+            sender: '0x0000000000000000000000000000000000000000',
+            nonce: '0x0',
+            initCode: '0x',
+            callData: '0x',
+            callGasLimit: '0x0',
+            verificationGasLimit: '0x0',
+            preVerificationGas: '0xC350',
+            maxFeePerGas: '0x0',
+            maxPriorityFeePerGas: '0x0',
+            paymasterAndData: '0x',
+            signature: '0x'
+        };
+
+        test('should pass for a valid v0.6 UserOp', () => {
+            const result = validateUserOpStructure(validV06Op, EntryPointVersion.V06);
+            expect(result.errors).toHaveLength(0);
+            expect(result.isValid).toBe(true);
+        });
+
+        test('should reject a packed UserOp for v0.6', () => {
+            const result = validateUserOpStructure(validUserOp, EntryPointVersion.V06);
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toContain('Missing field: callGasLimit');
+        });
+
+        test('should fail if the verificationGasLimit exceeds the maximum', () => {
+            const op = { ...validV06Op, verificationGasLimit: '0x4c4b41' }; // 5000001
+
+            expect(validateUserOpStructure(op, EntryPointVersion.V06).isValid).toBe(true);
+            const result = validateUserOpStructure(op, EntryPointVersion.V06, BigInt(5000000));
+            expect(result.isValid).toBe(false);
+            expect(result.errors).toContain('verificationGasLimit 5000001 exceeds the maximum of 5000000');
+        });
+
+        test('should fail if paymasterAndData is too short', () => {
+            const invalidOp = { ...validV06Op, paymasterAndData: '0x1234' };
+            const result = validateUserOpStructure(invalidOp, EntryPointVersion.V06);
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('paymasterAndData too short');
+        });
+    });
+
+    describe('EIP-7702 authorization', () => {
+        const auth = {
+            chainId: '0x1',
+            address: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+            nonce: '0x0',
+            yParity: '0x1',
+            r: '0x' + '11'.repeat(32),
+            s: '0x' + '22'.repeat(32)
+        };
+
+        test('should pass for a well-formed authorization', () => {
+            const result = validateUserOpStructure({ ...validUserOp, eip7702Auth: auth });
+            expect(result.errors).toHaveLength(0);
+        });
+
+        test('should check the authorization chain when known', () => {
+            expect(validateEip7702Authorization(auth, 1n)).toHaveLength(0);
+            expect(validateEip7702Authorization({ ...auth, chainId: '0x0' }, 10n)).toHaveLength(0);
+            expect(validateEip7702Authorization(auth, 10n)[0]).toContain('does not match chain');
+        });
+
+        test('should reject a malformed signature', () => {
+            const result = validateUserOpStructure({ ...validUserOp, eip7702Auth: { ...auth, yParity: '0x1b' } });
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('yParity');
+
+            const highS = { ...auth, s: '0x' + 'ff'.repeat(32) };
+            expect(validateEip7702Authorization(highS)[0]).toContain('high s value');
+        });
+
+        test('should only accept the 7702 initCode marker for EntryPoint v0.8', () => {
+            const op = { ...validUserOp, initCode: '0x7702' + '00'.repeat(18), preVerificationGas: '0x10000' };
+            expect(validateUserOpStructure(op, EntryPointVersion.V08).isValid).toBe(true);
+
+            const result = validateUserOpStructure(op, EntryPointVersion.V07);
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0]).toContain('requires EntryPoint v0.8');
+        });
+
+        test('should reject an authorization combined with a factory', () => {
+            const op = { ...validUserOp, eip7702Auth: auth, initCode: '0x' + 'bb'.repeat(20), preVerificationGas: '0x10000' };
+            const result = validateUserOpStructure(op);
+            expect(result.errors).toContain('eip7702Auth cannot be combined with a factory initCode');
+        });
+    });
 });
@@ -1,4 +1,4 @@
-import { validateStorageRules } from '../src/storage-rules';
+import { AssociatedSlots, isSlotAssociatedWith, recordAssociatedSlot, validateStorageRules } from '../src/storage-rules';
 import { EntityType } from '../src/types';
 import { createAddressFromString } from '@ethereumjs/util';
 
@@ -21,11 +21,20 @@ describe('Storage Rules Validation', () => {
         expect(result.allowed).toBe(false);
     });
 
-    it('should allow Factory to access its own storage', () => {
-        const result = validateStorageRules(EntityType.FACTORY, sender, factory, slot, factory);
+    it('should allow a staked Factory to access its own storage', () => {
+        const result = validateStorageRules(EntityType.FACTORY, sender, factory, slot, factory, undefined, {
+            stakedEntities: new Set([EntityType.FACTORY]),
+        });
         expect(result.allowed).toBe(true);
     });
 
+    it('should NOT allow an unstaked Factory to access its own storage (STO-031)', () => {
+        const result = validateStorageRules(EntityType.FACTORY, sender, factory, slot, factory);
+        expect(result.allowed).toBe(false);
+        expect(result.reason).toContain('STO-031');
+        expect(result).toMatchObject({ rule: 'STO-031', severity: 'warning' });
+    });
+
     it('should allow Factory to access Sender storage (deployment)', () => {
         const result = validateStorageRules(EntityType.FACTORY, sender, sender, slot, factory);
         expect(result.allowed).toBe(true);
@@ -34,10 +43,13 @@ describe('Storage Rules Validation', () => {
     it('should NOT allow Factory to access Paymaster storage', () => {
         const result = validateStorageRules(EntityType.FACTORY, sender, paymaster, slot, factory, paymaster);
         expect(result.allowed).toBe(false);
+        expect(result).toMatchObject({ rule: 'STO-031', severity: 'error' });
     });
 
-    it('should allow Paymaster to access its own storage', () => {
-        const result = validateStorageRules(EntityType.PAYMASTER, sender, paymaster, slot, factory, paymaster);
+    it('should allow a staked Paymaster to access its own storage', () => {
+        const result = validateStorageRules(EntityType.PAYMASTER, sender, paymaster, slot, factory, paymaster, {
+            stakedEntities: new Set([EntityType.PAYMASTER]),
+        });
         expect(result.allowed).toBe(true);
     });
 
@@ -50,4 +62,99 @@ describe('Storage Rules Validation', () => {
         const result = validateStorageRules(EntityType.ENTRYPOINT, sender, randomContract, slot);
         expect(result.allowed).toBe(true);
     });
+
+    describe('associated storage', () => {
+        const base = BigInt('0x' + 'ab'.repeat(32));
+        const slotAt = (offset: number) => '0x' + (base + BigInt(offset)).toString(16);
+
+        let associatedSlots: AssociatedSlots;
+        beforeEach(() => {
+            associatedSlots = new Map();
+            recordAssociatedSlot(associatedSlots, sender, base);
+        });
+
+        it('should treat the address itself as an associated slot', () => {
+            expect(isSlotAssociatedWith(sender.toString(), sender)).toBe(true);
+        });
+
+        it('should associate recorded slots and struct offsets up to 128', () => {
+            expect(isSlotAssociatedWith(slotAt(0), sender, associatedSlots)).toBe(true);
+            expect(isSlotAssociatedWith(slotAt(128), sender, associatedSlots)).toBe(true);
+            expect(isSlotAssociatedWith(slotAt(129), sender, associatedSlots)).toBe(false);
+            expect(isSlotAssociatedWith(slotAt(0), paymaster, associatedSlots)).toBe(false);
+        });
+
+        it('should allow access to the account\'s associated storage in a non-entity contract (STO-021)', () => {
+            const result = validateStorageRules(
+                EntityType.PAYMASTER, sender, randomContract, slotAt(1), undefined, paymaster, { associatedSlots }
+            );
+            expect(result.allowed).toBe(true);
+        });
+
+        it('should not extend associated access to entity contracts', () => {
+            const result = validateStorageRules(
+                EntityType.PAYMASTER, sender, sender, slotAt(0), undefined, paymaster, { associatedSlots }
+            );
+            expect(result.allowed).toBe(false);
+        });
+
+        it('should reject associated access during account creation (STO-022)', () => {
+            const result = validateStorageRules(
+                EntityType.SENDER, sender, randomContract, slotAt(0), factory, undefined, { associatedSlots }
+            );
+            expect(result.allowed).toBe(false);
+            expect(result.reason).toContain('STO-022');
+        });
+
+        it('should allow associated access during account creation with a staked factory', () => {
+            const result = validateStorageRules(
+                EntityType.SENDER, sender, randomContract, slotAt(0), factory, undefined,
+                { associatedSlots, stakedEntities: new Set([EntityType.FACTORY]) }
+            );
+            expect(result.allowed).toBe(true);
+        });
+
+        it('should only allow a staked entity its own associated storage (STO-032)', () => {
+            recordAssociatedSlot(associatedSlots, paymaster, base + BigInt(1000));
+            const paymasterSlot = slotAt(1000);
+
+            const unstaked = validateStorageRules(
+                EntityType.PAYMASTER, sender, randomContract, paymasterSlot, undefined, paymaster, { associatedSlots }
+            );
+            expect(unstaked.allowed).toBe(false);
+            expect(unstaked.reason).toContain('STO-032');
+
+            const staked = validateStorageRules(
+                EntityType.PAYMASTER, sender, randomContract, paymasterSlot, undefined, paymaster,
+                { associatedSlots, stakedEntities: new Set([EntityType.PAYMASTER]), isWrite: true }
+            );
+            expect(staked.allowed).toBe(true);
+        });
+    });
+
+    describe('staked read-only access (STO-033)', () => {
+        const stakedEntities = new Set([EntityType.PAYMASTER]);
+
+        it('should allow a staked entity to read any non-entity contract', () => {
+            const result = validateStorageRules(
+                EntityType.PAYMASTER, sender, randomContract, slot, undefined, paymaster, { stakedEntities }
+            );
+            expect(result.allowed).toBe(true);
+        });
+
+        it('should not allow a staked entity to write a non-entity contract', () => {
+            const result = validateStorageRules(
+                EntityType.PAYMASTER, sender, randomContract, slot, undefined, paymaster, { stakedEntities, isWrite: true }
+            );
+            expect(result.allowed).toBe(false);
+            expect(result).toMatchObject({ rule: 'STO-033', severity: 'error' });
+        });
+
+        it('should explain that staking would allow the read', () => {
+            const result = validateStorageRules(EntityType.PAYMASTER, sender, randomContract, slot, undefined, paymaster);
+            expect(result.allowed).toBe(false);
+            expect(result.reason).toContain('STO-033');
+            expect(result).toMatchObject({ rule: 'STO-033', severity: 'warning' });
+        });
+    });
 });
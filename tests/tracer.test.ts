@@ -0,0 +1,171 @@
+import { SimulationEnvironment } from '../src/simulation';
+import { formatUserOperationTrace } from '../src/tracer';
+import { createAddressFromString, hexToBytes } from '@ethereumjs/util';
+import { EntityType, PackedUserOperation } from '../src/types';
+import { ENTRYPOINT_V07_ADDRESS } from '../src/entrypoint';
+
+describe('Execution tracer', () => {
+    const sender = '0x1234567890123456789012345678901234567890';
+    const callee = '0x9999999999999999999999999999999999999999';
+    const userOp: PackedUserOperation = {
+        sender,
+        nonce: '0x0',
+        initCode: '0x',
+        callData: '0x',
+        // verificationGasLimit = 200000, callGasLimit = 0
+        accountGasLimits: '0x' + (200000).toString(16).padStart(32, '0') + '00'.repeat(16),
+        preVerificationGas: '0x0',
+        gasFees: '0x' + '00'.repeat(32),
+        paymasterAndData: '0x',
+        signature: '0x'
+    };
+
+    // PUSH32 0 PUSH1 0x00 MSTORE PUSH1 0x20 PUSH1 0x00 RETURN
+    const returnZero = '7f' + '00'.repeat(32) + '60005260206000f3';
+    // sstore(1, 0x2a) pop(sload(1)) tstore(2, 0x07) pop(tload(2))
+    // pop(call(0xffff, callee, 0, 0, 0, 0, 0)), then return 0
+    const senderCode = `0x602a60015560015450600760025d60025c50` +
+        `6000600060006000600073${callee.slice(2)}61fffff150${returnZero}` as `0x${string}`;
+
+    const deploy = async (simEnv: SimulationEnvironment) => {
+        await simEnv.init();
+        await simEnv.deployCode(createAddressFromString(sender), hexToBytes(senderCode));
+        // SLOAD of slot 5 in the callee: PUSH1 0x05 SLOAD STOP
+        await simEnv.deployCode(createAddressFromString(callee), hexToBytes('0x60055400'));
+    };
+
+    it('should not trace unless asked to', async () => {
+        const simEnv = new SimulationEnvironment();
+        await deploy(simEnv);
+
+        const result = await simEnv.simulateValidation(userOp);
+
+        expect(result.trace).toBeUndefined();
+    });
+
+    it('should record steps with opcode names', async () => {
+        const simEnv = new SimulationEnvironment();
+        await deploy(simEnv);
+
+        const result = await simEnv.simulateValidation(userOp, undefined, { trace: true });
+        const steps = result.trace!.steps;
+
+        expect(steps[0]).toMatchObject({ pc: 0, opcode: 'PUSH1', depth: 0, entity: EntityType.SENDER, address: sender });
+        expect(steps.map(s => s.opcode)).toEqual(expect.arrayContaining(['SSTORE', 'TLOAD', 'CALL', 'RETURN']));
+        expect(steps.every(s => s.gasCost >= 0)).toBe(true);
+    });
+
+    it('should build the call tree', async () => {
+        const simEnv = new SimulationEnvironment();
+        await deploy(simEnv);
+
+        const result = await simEnv.simulateValidation(userOp, undefined, { trace: true });
+        const [root] = result.trace!.calls;
+
+        expect(result.trace!.calls).toHaveLength(1);
+        expect(root).toMatchObject({ type: 'CALL', to: sender, entity: EntityType.SENDER, depth: 0 });
+        expect(root.output).toBe('0x' + '00'.repeat(32));
+        expect(root.calls).toHaveLength(1);
+        expect(root.calls[0]).toMatchObject({ type: 'CALL', from: sender, to: callee, depth: 1 });
+        expect(result.trace!.steps.filter(s => s.depth === 1).map(s => s.opcode)).toEqual(['PUSH1', 'SLOAD', 'STOP']);
+        expect(root.gasUsed).toBeGreaterThan(root.calls[0].gasUsed);
+    });
+
+    it('should stop recording steps at the limit but keep counting opcodes', async () => {
+        const simEnv = new SimulationEnvironment();
+        await deploy(simEnv);
+
+        const full = await simEnv.simulateValidation(userOp, undefined, { trace: true });
+        const limited = await simEnv.simulateValidation(userOp, undefined, { trace: { maxSteps: 3 } });
+
+        expect(full.trace!.truncated).toBe(false);
+        expect(limited.trace!.truncated).toBe(true);
+        expect(limited.trace!.steps.map(s => s.opcode)).toEqual(full.trace!.steps.slice(0, 3).map(s => s.opcode));
+        expect(limited.trace!.opcodes).toEqual(full.trace!.opcodes);
+        expect(limited.trace!.calls).toHaveLength(full.trace!.calls.length);
+    });
+
+    it('should list storage reads and writes with their values', async () => {
+        const simEnv = new SimulationEnvironment();
+        await deploy(simEnv);
+
+        const result = await simEnv.simulateValidation(userOp, undefined, { trace: true });
+        const word = (value: number) => '0x' + value.toString(16).padStart(64, '0');
+
+        expect(result.trace!.storage).toEqual([
+            { entity: EntityType.SENDER, address: sender, slot: word(1), value: word(0x2a), write: true, transient: false, pc: 4 },
+            { entity: EntityType.SENDER, address: sender, slot: word(1), value: word(0x2a), write: false, transient: false, pc: 7 },
+            { entity: EntityType.SENDER, address: sender, slot: word(2), value: word(7), write: true, transient: true, pc: 13 },
+            { entity: EntityType.SENDER, address: sender, slot: word(2), value: word(7), write: false, transient: true, pc: 16 },
+            { entity: EntityType.SENDER, address: callee, slot: word(5), value: word(0), write: false, transient: false, pc: 2 },
+        ]);
+    });
+
+    it('should attribute frames to entities when validating through the EntryPoint', async () => {
+        const simEnv = new SimulationEnvironment({ useEntryPointBytecode: true });
+        await deploy(simEnv);
+
+        const result = await simEnv.simulateValidation(userOp, undefined, { trace: true });
+        const [root] = result.trace!.calls;
+        const accountFrame = root.calls.find(call => call.to === sender);
+
+        expect(root).toMatchObject({ to: ENTRYPOINT_V07_ADDRESS.toLowerCase(), entity: EntityType.ENTRYPOINT });
+        expect(accountFrame?.entity).toBe(EntityType.SENDER);
+        expect(accountFrame?.calls[0]).toMatchObject({ to: callee, entity: EntityType.SENDER });
+    });
+
+    describe('formatUserOperationTrace', () => {
+        it('should return a JSON-safe trace with gas per phase', async () => {
+            const simEnv = new SimulationEnvironment();
+            await deploy(simEnv);
+            const result = await simEnv.simulateValidation(userOp, undefined, { trace: true });
+
+            const formatted = formatUserOperationTrace(result);
+
+            expect(() => JSON.stringify(formatted)).not.toThrow();
+            expect(formatted.gasUsed.account).toBe('0x' + result.phaseGasUsed!.account!.toString(16));
+            expect(formatted.gasUsed.total).toBe(formatted.gasUsed.account);
+            expect(formatted.calls[0].calls[0]).toMatchObject({ to: callee, value: '0x0', calls: [] });
+            expect(formatted.storage[EntityType.SENDER]).toHaveLength(5);
+            expect(formatted.opcodes[EntityType.SENDER]).toMatchObject({ SSTORE: 1, SLOAD: 2, CALL: 1 });
+            expect(formatted.steps).toHaveLength(result.trace!.steps.length);
+            expect(formatted.truncated).toBe(false);
+        });
+
+        it('should limit the number of steps', async () => {
+            const simEnv = new SimulationEnvironment();
+            await deploy(simEnv);
+            const result = await simEnv.simulateValidation(userOp, undefined, { trace: true });
+
+            const formatted = formatUserOperationTrace(result, { maxSteps: 3 });
+
+            expect(formatted.steps).toHaveLength(3);
+            expect(formatted.truncated).toBe(true);
+        });
+
+        it('should report steps cut while recording as truncated', async () => {
+            const simEnv = new SimulationEnvironment();
+            await deploy(simEnv);
+            const result = await simEnv.simulateValidation(userOp, undefined, { trace: { maxSteps: 3 } });
+
+            const formatted = formatUserOperationTrace(result, { maxSteps: 3 });
+
+            expect(formatted.steps).toHaveLength(3);
+            expect(formatted.truncated).toBe(true);
+        });
+
+        it('should filter by entity', async () => {
+            const simEnv = new SimulationEnvironment({ useEntryPointBytecode: true });
+            await deploy(simEnv);
+            const result = await simEnv.simulateValidation(userOp, undefined, { trace: true });
+
+            const formatted = formatUserOperationTrace(result, { entity: EntityType.SENDER });
+
+            expect(formatted.calls).toHaveLength(1);
+            expect(formatted.calls[0]).toMatchObject({ to: sender, entity: EntityType.SENDER });
+            expect(formatted.steps.every(step => step.entity === EntityType.SENDER)).toBe(true);
+            expect(Object.keys(formatted.storage)).toEqual([EntityType.SENDER]);
+            expect(Object.keys(formatted.opcodes)).toEqual([EntityType.SENDER]);
+        });
+    });
+});
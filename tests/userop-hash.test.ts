@@ -0,0 +1,120 @@
+import { AbiCoder, TypedDataEncoder, concat, keccak256 } from 'ethers';
+import { getUserOpHash, getUserOpHashV06, getUserOpHashV08, packUserOpForHash } from '../src/userop-hash';
+import { PackedUserOperation, UserOperationV06 } from '../src/types';
+
+describe('getUserOpHash', () => {
+    const entryPoint = '0x0000000071727De22E5E9d8BAf0edAc6f37da032';
+    const userOp: PackedUserOperation = {
+        sender: '0x1234567890123456789012345678901234567890',
+        nonce: '0x1',
+        initCode: '0x',
+        callData: '0xb61d27f6',
+        accountGasLimits: '0x000000000000000000000000000186a0000000000000000000000000000186a0',
+        preVerificationGas: '0xc350',
+        gasFees: '0x0000000000000000000000003b9aca000000000000000000000000003b9aca00',
+        paymasterAndData: '0x',
+        signature: '0xdeadbeef'
+    };
+
+    it('should match the EntryPoint v0.7 packing rules', () => {
+        const coder = AbiCoder.defaultAbiCoder();
+        const packed = coder.encode(
+            ['address', 'uint256', 'bytes32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'bytes32'],
+            [
+                userOp.sender,
+                1n,
+                keccak256('0x'),
+                keccak256('0xb61d27f6'),
+                userOp.accountGasLimits,
+                50000n,
+                userOp.gasFees,
+                keccak256('0x'),
+            ]
+        );
+        const expected = keccak256(
+            coder.encode(['bytes32', 'address', 'uint256'], [keccak256(packed), entryPoint, 1n])
+        );
+
+        expect(packUserOpForHash(userOp)).toBe(packed);
+        expect(getUserOpHash(userOp, entryPoint, 1)).toBe(expected);
+    });
+
+    it('should not depend on the signature', () => {
+        const resigned = { ...userOp, signature: '0x' + '11'.repeat(65) };
+        expect(getUserOpHash(resigned, entryPoint, 1)).toBe(getUserOpHash(userOp, entryPoint, 1));
+    });
+
+    it('should bind the hash to the chain and EntryPoint', () => {
+        const hash = getUserOpHash(userOp, entryPoint, 1);
+        expect(getUserOpHash(userOp, entryPoint, 11155111n)).not.toBe(hash);
+        expect(getUserOpHash(userOp, '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789', 1)).not.toBe(hash);
+    });
+
+    describe('v0.6', () => {
+        const entryPointV06 = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789';
+        const userOpV06: UserOperationV06 = {
+            sender: userOp.sender,
+            nonce: '0x1',
+            initCode: '0x',
+            callData: '0xb61d27f6',
+            callGasLimit: '0x186a0',
+            verificationGasLimit: '0x186a0',
+            preVerificationGas: '0xc350',
+            maxFeePerGas: '0x3b9aca00',
+            maxPriorityFeePerGas: '0x3b9aca00',
+            paymasterAndData: '0x',
+            signature: '0xdeadbeef'
+        };
+
+        it('should match the EntryPoint v0.6 packing rules', () => {
+            const coder = AbiCoder.defaultAbiCoder();
+            const packed = coder.encode(
+                ['address', 'uint256', 'bytes32', 'bytes32', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'bytes32'],
+                [userOpV06.sender, 1n, keccak256('0x'), keccak256('0xb61d27f6'), 100000n, 100000n, 50000n, 1000000000n, 1000000000n, keccak256('0x')]
+            );
+            const expected = keccak256(
+                coder.encode(['bytes32', 'address', 'uint256'], [keccak256(packed), entryPointV06, 1n])
+            );
+
+            expect(getUserOpHashV06(userOpV06, entryPointV06, 1)).toBe(expected);
+        });
+    });
+
+    describe('v0.8', () => {
+        const entryPointV08 = '0x4337084D9E255Ff0702461CF8895CE9E3b5Ff108';
+        const types = {
+            PackedUserOperation: [
+                { name: 'sender', type: 'address' },
+                { name: 'nonce', type: 'uint256' },
+                { name: 'initCode', type: 'bytes' },
+                { name: 'callData', type: 'bytes' },
+                { name: 'accountGasLimits', type: 'bytes32' },
+                { name: 'preVerificationGas', type: 'uint256' },
+                { name: 'gasFees', type: 'bytes32' },
+                { name: 'paymasterAndData', type: 'bytes' },
+            ],
+        };
+        const domain = { name: 'ERC4337', version: '1', chainId: 1, verifyingContract: entryPointV08 };
+
+        it('should be the EIP-712 hash of the PackedUserOperation', () => {
+            const expected = TypedDataEncoder.hash(domain, types, { ...userOp, nonce: 1n, preVerificationGas: 50000n });
+            expect(getUserOpHashV08(userOp, entryPointV08, 1)).toBe(expected);
+        });
+
+        it('should replace the initCode hash for EIP-7702 accounts', () => {
+            const delegate = '0xdddddddddddddddddddddddddddddddddddddddd';
+            const marker = '0x7702' + '00'.repeat(18);
+            const op = { ...userOp, initCode: marker + 'abcd' };
+
+            // Signing over (delegate || initData) instead of the marker initCode
+            const expected = TypedDataEncoder.hash(domain, types, {
+                ...op,
+                nonce: 1n,
+                preVerificationGas: 50000n,
+                initCode: concat([delegate, '0xabcd']),
+            });
+            expect(getUserOpHashV08(op, entryPointV08, 1, delegate)).toBe(expected);
+            expect(() => getUserOpHashV08(op, entryPointV08, 1)).toThrow('eip7702Auth missing');
+        });
+    });
+});
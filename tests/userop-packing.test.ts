@@ -0,0 +1,70 @@
+import { packUserOp, unpackUserOp, normalizeUserOp, isUnpackedUserOp } from '../src/userop-packing';
+import { UnpackedUserOperation } from '../src/types';
+
+describe('UserOperation packing', () => {
+    const unpacked: UnpackedUserOperation = {
+        sender: '0x1234567890123456789012345678901234567890',
+        nonce: '0x1',
+        factory: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+        factoryData: '0x5fbfb9cf',
+        callData: '0xb61d27f6',
+        callGasLimit: '0x186a0',
+        verificationGasLimit: '0x30d40',
+        preVerificationGas: '0xc350',
+        maxFeePerGas: '0x3b9aca00',
+        maxPriorityFeePerGas: '0x5f5e100',
+        paymaster: '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb',
+        paymasterVerificationGasLimit: '0x7530',
+        paymasterPostOpGasLimit: '0x2710',
+        paymasterData: '0x1234',
+        signature: '0xdeadbeef'
+    };
+
+    it('should pack the unpacked fields into the v0.7 struct', () => {
+        const packed = packUserOp(unpacked);
+
+        expect(packed.initCode).toBe('0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa5fbfb9cf');
+        expect(packed.accountGasLimits).toBe('0x' + '30d40'.padStart(32, '0') + '186a0'.padStart(32, '0'));
+        expect(packed.gasFees).toBe('0x' + '5f5e100'.padStart(32, '0') + '3b9aca00'.padStart(32, '0'));
+        expect(packed.paymasterAndData).toBe(
+            '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb' +
+            '7530'.padStart(32, '0') +
+            '2710'.padStart(32, '0') +
+            '1234'
+        );
+    });
+
+    it('should round-trip losslessly', () => {
+        expect(unpackUserOp(packUserOp(unpacked))).toEqual(unpacked);
+
+        const packed = packUserOp(unpacked);
+        expect(packUserOp(unpackUserOp(packed))).toEqual(packed);
+    });
+
+    it('should omit factory and paymaster fields when unused', () => {
+        const minimal: UnpackedUserOperation = { ...unpacked };
+        delete minimal.factory;
+        delete minimal.factoryData;
+        delete minimal.paymaster;
+        delete minimal.paymasterVerificationGasLimit;
+        delete minimal.paymasterPostOpGasLimit;
+        delete minimal.paymasterData;
+
+        const packed = packUserOp(minimal);
+        expect(packed.initCode).toBe('0x');
+        expect(packed.paymasterAndData).toBe('0x');
+        expect(unpackUserOp(packed)).toEqual(minimal);
+    });
+
+    it('should reject gas values larger than uint128', () => {
+        expect(() => packUserOp({ ...unpacked, callGasLimit: '0x1' + '00'.repeat(16) })).toThrow('uint128');
+    });
+
+    it('should auto-detect the shape', () => {
+        const packed = packUserOp(unpacked);
+        expect(isUnpackedUserOp(unpacked)).toBe(true);
+        expect(isUnpackedUserOp(packed)).toBe(false);
+        expect(normalizeUserOp(unpacked)).toEqual(packed);
+        expect(normalizeUserOp(packed)).toBe(packed);
+    });
+});
@@ -0,0 +1,44 @@
+import { parseValidationData, packValidationData, checkValidityRange, MAX_VALID_UNTIL } from '../src/validation-data';
+
+describe('validationData', () => {
+    it('should treat zero as success without time range', () => {
+        const data = parseValidationData(0n);
+        expect(data.sigFailed).toBe(false);
+        expect(data.aggregator).toBe('0x' + '00'.repeat(20));
+        expect(data.validAfter).toBe(0);
+        expect(data.validUntil).toBe(MAX_VALID_UNTIL);
+    });
+
+    it('should detect signature failure', () => {
+        expect(parseValidationData(1n).sigFailed).toBe(true);
+    });
+
+    it('should unpack aggregator and time range', () => {
+        const aggregator = 0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaan;
+        const packed = aggregator | (2000n << 160n) | (1000n << 208n);
+        const data = parseValidationData(packed);
+
+        expect(data.aggregator).toBe('0x' + 'aa'.repeat(20));
+        expect(data.sigFailed).toBe(false);
+        expect(data.validUntil).toBe(2000);
+        expect(data.validAfter).toBe(1000);
+        expect(packValidationData(data)).toBe(packed);
+    });
+
+    describe('checkValidityRange', () => {
+        it('should accept an open range', () => {
+            expect(checkValidityRange(parseValidationData(0n), 1000, 30)).toBeUndefined();
+        });
+
+        it('should reject a range that is not due yet', () => {
+            const data = parseValidationData(2000n << 208n);
+            expect(checkValidityRange(data, 1000, 30)).toContain('not due');
+        });
+
+        it('should reject a range that expires within the grace period', () => {
+            const data = parseValidationData(1010n << 160n);
+            expect(checkValidityRange(data, 1000, 30)).toContain('expired');
+            expect(checkValidityRange(data, 1000, 5)).toBeUndefined();
+        });
+    });
+});
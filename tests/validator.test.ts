@@ -5,8 +5,10 @@ import {
   createValidationContext,
   setCurrentEntity,
   ValidationViolationError,
-  validateExecutionRulesLegacy
+  validateExecutionRulesLegacy,
+  getBannedOpcodes
 } from '../src/validator';
+import { Common, Hardfork, Mainnet } from '@ethereumjs/common';
 import { EntityType } from '../src/types';
 
 describe('Validator', () => {
@@ -171,6 +173,300 @@ describe('Validator', () => {
     });
   });
 
+  describe('Hardfork-aware opcode rules', () => {
+    it('should only ban blob opcodes once Cancun is active', () => {
+      const shanghai = getBannedOpcodes(new Common({ chain: Mainnet, hardfork: Hardfork.Shanghai }));
+      const cancun = getBannedOpcodes(new Common({ chain: Mainnet, hardfork: Hardfork.Cancun }));
+
+      expect(shanghai.has(0x49)).toBe(false);
+      expect(shanghai.has(0x4a)).toBe(false);
+      expect(cancun.get(0x49)).toEqual({ name: 'BLOBHASH', rule: 'OP-011' });
+      expect(cancun.get(0x4a)).toEqual({ name: 'BLOBBASEFEE', rule: 'OP-011' });
+    });
+
+    it('should name 0x44 by hardfork', () => {
+      const london = getBannedOpcodes(new Common({ chain: Mainnet, hardfork: Hardfork.London }));
+      const paris = getBannedOpcodes(new Common({ chain: Mainnet, hardfork: Hardfork.Paris }));
+
+      expect(london.get(0x44)?.name).toBe('DIFFICULTY');
+      expect(paris.get(0x44)?.name).toBe('PREVRANDAO');
+    });
+
+    it('should ban ORIGIN, INVALID and SELFDESTRUCT', () => {
+      const banned = getBannedOpcodes(new Common({ chain: Mainnet, hardfork: Hardfork.Prague }));
+
+      expect(banned.get(0x32)?.name).toBe('ORIGIN');
+      expect(banned.get(0xfe)?.name).toBe('INVALID');
+      expect(banned.get(0xff)?.name).toBe('SELFDESTRUCT');
+    });
+
+    it('should report the rule ID of a banned opcode', async () => {
+      const vm = await createVM();
+      const sender = createAddressFromString('0x1234567890123456789012345678901234567890');
+      const entryPoint = createAddressFromString('0x0000000071727De22E5E9d8BAf0edAc6f37da032');
+      const context = createValidationContext({ sender, entryPoint });
+      // ORIGIN POP STOP
+      await vm.stateManager.putCode(sender, hexToBytes('0x325000'));
+
+      const cleanup = validateExecutionRules(vm, context);
+      try {
+        await vm.evm.runCall({ to: sender, caller: entryPoint, gasLimit: BigInt(100000) });
+      } finally {
+        cleanup();
+      }
+
+      expect(context.violations).toHaveLength(1);
+      expect(context.violations[0].message).toContain('ORIGIN');
+      expect(context.violations[0]).toMatchObject({
+        rule: 'OP-011',
+        severity: 'error',
+        pc: 0,
+        depth: 0,
+        address: sender.toString(),
+      });
+    });
+  });
+
+  describe('GAS opcode (OP-012)', () => {
+    const sender = createAddressFromString('0x1234567890123456789012345678901234567890');
+    const entryPoint = createAddressFromString('0x0000000071727De22E5E9d8BAf0edAc6f37da032');
+
+    const runSender = async (code: string) => {
+      const vm = await createVM();
+      const context = createValidationContext({ sender, entryPoint });
+      await vm.stateManager.putCode(sender, hexToBytes(code as `0x${string}`));
+
+      const cleanup = validateExecutionRules(vm, context);
+      try {
+        await vm.evm.runCall({ to: sender, caller: entryPoint, gasLimit: BigInt(100000) });
+      } finally {
+        cleanup();
+      }
+      return context;
+    };
+
+    it('should allow GAS immediately before CALL', async () => {
+      // call(gas(), 0x01, 0, 0, 0, 0, 0) stop
+      const context = await runSender('0x600060006000600060006001' + '5af100');
+
+      expect(context.violations).toHaveLength(0);
+    });
+
+    it('should reject GAS not followed by a call, reporting its PC', async () => {
+      // PUSH1 0 POP GAS POP STOP
+      const context = await runSender('0x600050' + '5a5000');
+
+      expect(context.violations).toHaveLength(1);
+      expect(context.violations[0].type).toBe('BANNED_OPCODE');
+      expect(context.violations[0].pc).toBe(3);
+      expect(context.violations[0].message).toContain('OP-012');
+    });
+
+    it('should reject GAS as the last opcode of a nested frame', async () => {
+      const vm = await createVM();
+      const context = createValidationContext({ sender, entryPoint });
+      const callee = createAddressFromString('0x9999999999999999999999999999999999999999');
+      // call(gas(), callee, 0, 0, 0, 0, 0) stop
+      await vm.stateManager.putCode(sender, hexToBytes(`0x6000600060006000600073${callee.toString().slice(2)}5af100`));
+      await vm.stateManager.putCode(callee, hexToBytes('0x5a'));
+
+      const cleanup = validateExecutionRules(vm, context);
+      try {
+        await vm.evm.runCall({ to: sender, caller: entryPoint, gasLimit: BigInt(100000) });
+      } finally {
+        cleanup();
+      }
+
+      expect(context.violations).toHaveLength(1);
+      expect(context.violations[0]).toMatchObject({ rule: 'OP-012', pc: 0, depth: 1, address: callee.toString() });
+    });
+  });
+
+  describe('Code access (OP-041/OP-042)', () => {
+    const sender = createAddressFromString('0x1234567890123456789012345678901234567890');
+    const factory = createAddressFromString('0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa');
+    const entryPoint = createAddressFromString('0x0000000071727De22E5E9d8BAf0edAc6f37da032');
+    const target = createAddressFromString('0x9999999999999999999999999999999999999999');
+    const push20 = (address: Address) => `73${address.toString().slice(2)}`;
+
+    const run = async (code: string, entity = EntityType.SENDER, targetCode?: string) => {
+      const vm = await createVM();
+      const context = createValidationContext({ sender, entryPoint, factory });
+      setCurrentEntity(context, entity);
+      const executing = entity === EntityType.FACTORY ? factory : sender;
+      await vm.stateManager.putCode(executing, hexToBytes(code as `0x${string}`));
+      if (targetCode) {
+        await vm.stateManager.putCode(target, hexToBytes(targetCode as `0x${string}`));
+      }
+
+      const cleanup = validateExecutionRules(vm, context);
+      try {
+        await vm.evm.runCall({ to: executing, caller: entryPoint, gasLimit: BigInt(100000) });
+      } finally {
+        cleanup();
+      }
+      return context;
+    };
+
+    it('should reject EXTCODESIZE on an address without code', async () => {
+      // pop(extcodesize(target)) stop
+      const context = await run(`0x${push20(target)}3b5000`);
+
+      expect(context.violations).toHaveLength(1);
+      expect(context.violations[0].type).toBe('ENTITY_RESTRICTION');
+      expect(context.violations[0].message).toContain('EXTCODESIZE');
+      expect(context.violations[0].pc).toBe(21);
+    });
+
+    it('should allow EXTCODEHASH on an address with code', async () => {
+      // pop(extcodehash(target)) stop
+      const context = await run(`0x${push20(target)}3f5000`, EntityType.SENDER, '0x00');
+
+      expect(context.violations).toHaveLength(0);
+    });
+
+    it('should reject a CALL into an address without code', async () => {
+      // pop(call(gas(), target, 0, 0, 0, 0, 0)) stop
+      const context = await run(`0x60006000600060006000${push20(target)}5af15000`);
+
+      expect(context.violations).toHaveLength(1);
+      expect(context.violations[0].message).toContain('CALL');
+    });
+
+    it('should only allow precompiles on the allowlist (OP-062)', async () => {
+      // pop(staticcall(gas(), 0x100, 0, 0, 0, 0)) stop
+      const code = '0x60006000600060006101005afa5000';
+      const vm = await createVM();
+      await vm.stateManager.putCode(sender, hexToBytes(code));
+
+      const run = async (precompiles?: string[]) => {
+        const context = createValidationContext({ sender, entryPoint, precompiles });
+        const cleanup = validateExecutionRules(vm, context);
+        try {
+          await vm.evm.runCall({ to: sender, caller: entryPoint, gasLimit: BigInt(100000) });
+        } finally {
+          cleanup();
+        }
+        return context;
+      };
+
+      const mainnet = await run();
+      expect(mainnet.violations).toHaveLength(1);
+      expect(mainnet.violations[0].message).toContain('OP-062');
+
+      const allowed = await run(['0x0000000000000000000000000000000000000100']);
+      expect(allowed.violations).toHaveLength(0);
+    });
+
+    it('should only allow the precompiles of the simulated hardfork (OP-062)', async () => {
+      // pop(staticcall(gas(), 0x0b, 0, 0, 0, 0)) stop: BLS12-381 G1ADD
+      const code = '0x6000600060006000600b5afa5000';
+      const run = async (hardfork: Hardfork) => {
+        const vm = await createVM({ common: new Common({ chain: Mainnet, hardfork }) });
+        await vm.stateManager.putCode(sender, hexToBytes(code));
+        const context = createValidationContext({ sender, entryPoint });
+        const cleanup = validateExecutionRules(vm, context);
+        try {
+          await vm.evm.runCall({ to: sender, caller: entryPoint, gasLimit: BigInt(100000) });
+        } finally {
+          cleanup();
+        }
+        return context;
+      };
+
+      const cancun = await run(Hardfork.Cancun);
+      expect(cancun.violations).toHaveLength(1);
+      expect(cancun.violations[0].message).toContain('OP-062');
+
+      const prague = await run(Hardfork.Prague);
+      expect(prague.violations).toHaveLength(0);
+    });
+
+    it('should reject value sent anywhere but the EntryPoint (OP-061)', async () => {
+      // pop(call(gas(), target, 1, 0, 0, 0, 0)) stop
+      const context = await run(`0x60006000600060006001${push20(target)}5af15000`, EntityType.SENDER, '0x00');
+
+      expect(context.violations).toHaveLength(1);
+      expect(context.violations[0].message).toContain('OP-061');
+    });
+
+    it('should let the factory access the sender it deploys', async () => {
+      // pop(extcodesize(sender)) stop
+      const fromFactory = await run(`0x${push20(sender)}3b5000`, EntityType.FACTORY);
+
+      expect(fromFactory.violations).toHaveLength(0);
+    });
+  });
+
+  describe('EntryPoint calls (OP-052/OP-053/OP-054)', () => {
+    const sender = createAddressFromString('0x1234567890123456789012345678901234567890');
+    const paymaster = createAddressFromString('0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb');
+    const entryPoint = createAddressFromString('0x0000000071727De22E5E9d8BAf0edAc6f37da032');
+    const ep = entryPoint.toString().slice(2);
+
+    // mstore(0, shl(224, selector)) pop(call(gas(), entryPoint, 0, 0, 4, 0, 0)) stop
+    const callWithSelector = (selector: string) => `0x63${selector}60e01b6000526000600060046000600073${ep}5af15000`;
+    // pop(call(gas(), entryPoint, 0, 0, 0, 0, 0)) stop
+    const callFallback = `0x6000600060006000600073${ep}5af15000`;
+    // mstore(0, shl(224, selector)) pop(staticcall(gas(), entryPoint, 0, 4, 0, 0)) stop
+    const staticCall = (selector: string) => `0x63${selector}60e01b600052600060006004600073${ep}5afa5000`;
+
+    const run = async (entity: EntityType, code: string) => {
+      const vm = await createVM();
+      const context = createValidationContext({ sender, entryPoint, paymaster });
+      setCurrentEntity(context, entity);
+      const executing = entity === EntityType.PAYMASTER ? paymaster : sender;
+      await vm.stateManager.putCode(executing, hexToBytes(code as `0x${string}`));
+      await vm.stateManager.putCode(entryPoint, hexToBytes('0x00'));
+
+      const cleanup = validateExecutionRules(vm, context);
+      try {
+        await vm.evm.runCall({ to: executing, caller: entryPoint, gasLimit: BigInt(100000) });
+      } finally {
+        cleanup();
+      }
+      return context;
+    };
+
+    it('should allow depositTo from the sender', async () => {
+      const context = await run(EntityType.SENDER, callWithSelector('b760faf9'));
+      expect(context.violations).toHaveLength(0);
+    });
+
+    it('should allow the fallback from the sender only', async () => {
+      const fromSender = await run(EntityType.SENDER, callFallback);
+      const fromPaymaster = await run(EntityType.PAYMASTER, callFallback);
+
+      expect(fromSender.violations).toHaveLength(0);
+      expect(fromPaymaster.violations).toHaveLength(1);
+      expect(fromPaymaster.violations[0].selector).toBe('0x');
+    });
+
+    it('should allow getNonce reads', async () => {
+      const context = await run(EntityType.PAYMASTER, staticCall('35567e1a'));
+      expect(context.violations).toHaveLength(0);
+    });
+
+    it('should only accept value sent to the EntryPoint by the sender (OP-061)', async () => {
+      // pop(call(gas(), entryPoint, 1, 0, 0, 0, 0)) stop
+      const code = `0x6000600060006000600173${ep}5af15000`;
+      const fromSender = await run(EntityType.SENDER, code);
+      const fromPaymaster = await run(EntityType.PAYMASTER, code);
+
+      expect(fromSender.violations).toHaveLength(0);
+      expect(fromPaymaster.violations.map(v => v.message).join()).toContain('OP-061');
+    });
+
+    it('should reject other EntryPoint functions, reporting the selector', async () => {
+      const context = await run(EntityType.PAYMASTER, callWithSelector('12345678'));
+
+      expect(context.violations).toHaveLength(1);
+      expect(context.violations[0].type).toBe('ILLEGAL_ENTRYPOINT_CALL');
+      expect(context.violations[0].selector).toBe('0x12345678');
+      expect(context.violations[0].message).toContain('OP-054');
+    });
+  });
+
   describe('Entity Restrictions', () => {
     it('should allow CREATE for Factory entity', async () => {
       const vm = await createVM();
@@ -192,4 +488,96 @@ describe('Validator', () => {
       expect(context.entity).toBe(EntityType.FACTORY);
     });
   });
+
+  describe('Associated Storage', () => {
+    const sender = createAddressFromString('0x1234567890123456789012345678901234567890');
+    const entryPoint = createAddressFromString('0x0000000071727De22E5E9d8BAf0edAc6f37da032');
+    const token = createAddressFromString('0x9999999999999999999999999999999999999999');
+
+    // call(gas(), token, 0, 0, 0, 0, 0) stop
+    const callToken = hexToBytes(`0x6000600060006000600073${token.toString().slice(2)}5af100`);
+
+    const runSender = async (tokenCode: string) => {
+      const vm = await createVM();
+      const context = createValidationContext({ sender, entryPoint, throwOnViolation: false });
+      await vm.stateManager.putCode(sender, callToken);
+      await vm.stateManager.putCode(token, hexToBytes(tokenCode as `0x${string}`));
+
+      const cleanup = validateExecutionRules(vm, context);
+      try {
+        await vm.evm.runCall({ to: sender, caller: entryPoint, gasLimit: BigInt(100000) });
+      } finally {
+        cleanup();
+      }
+      return context;
+    };
+
+    it('should allow reading balances[sender] in a non-entity contract', async () => {
+      // mstore(0, caller()) mstore(32, 0) pop(sload(keccak256(0, 64))) stop
+      const context = await runSender('0x336000526000602052604060002054500000');
+
+      expect(context.violations).toHaveLength(0);
+      expect(context.associatedSlots.get(sender.toString())).toHaveLength(1);
+    });
+
+    it('should allow BALANCE only for staked entities (OP-080)', async () => {
+      // mstore(0, caller()) mstore(32, 0) pop(sload(keccak256(0, 64))) pop(balance(caller())) stop
+      const tokenCode = '0x336000526000602052604060002054503331500000';
+      const vm = await createVM();
+      await vm.stateManager.putCode(sender, callToken);
+      await vm.stateManager.putCode(token, hexToBytes(tokenCode));
+
+      const run = async (stakedEntities: EntityType[]) => {
+        const context = createValidationContext({ sender, entryPoint, stakedEntities });
+        const cleanup = validateExecutionRules(vm, context);
+        try {
+          await vm.evm.runCall({ to: sender, caller: entryPoint, gasLimit: BigInt(100000) });
+        } finally {
+          cleanup();
+        }
+        return context;
+      };
+
+      const unstaked = await run([]);
+      expect(unstaked.violations).toHaveLength(1);
+      expect(unstaked.violations[0].message).toContain('OP-080');
+      expect(unstaked.violations[0]).toMatchObject({
+        rule: 'OP-080',
+        severity: 'warning',
+        depth: 1,
+        address: token.toString(),
+      });
+
+      const staked = await run([EntityType.SENDER]);
+      expect(staked.staked).toBe(true);
+      expect(staked.violations).toHaveLength(0);
+    });
+
+    it('should apply the association rules to transient storage', async () => {
+      // tstore(keccak256(0, 64) of mstore(0, caller()), 1) stop
+      const associated = await runSender('0x336000526000602052600160406000205d00');
+      // tstore(0, 1) stop
+      const unassociated = await runSender('0x600160005d00');
+
+      expect(associated.violations).toHaveLength(0);
+      expect(unassociated.violations).toHaveLength(1);
+      expect(unassociated.violations[0].type).toBe('ILLEGAL_STORAGE_ACCESS');
+      // Writes to non-entity contracts are not allowed even for staked entities
+      expect(unassociated.violations[0]).toMatchObject({ rule: 'STO-033', severity: 'error' });
+    });
+
+    it('should reject slots not derived from an entity address', async () => {
+      // mstore(0, 1) mstore(32, 0) pop(sload(keccak256(0, 64))) stop
+      const context = await runSender('0x60016000526000602052604060002054500000');
+
+      expect(context.violations).toHaveLength(1);
+      expect(context.violations[0].type).toBe('ILLEGAL_STORAGE_ACCESS');
+      expect(context.violations[0]).toMatchObject({
+        rule: 'STO-033',
+        severity: 'warning',
+        depth: 1,
+        address: token.toString(),
+      });
+    });
+  });
 });